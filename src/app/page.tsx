@@ -1,53 +1,242 @@
 "use client";
 
-import { BarChart3, Download, FileText, Plus, Trash2 } from "lucide-react";
-import { useEffect, useState } from "react";
+import {
+  ArrowLeftRight,
+  BarChart3,
+  Download,
+  FilePlus,
+  FileText,
+  Info,
+  ListOrdered,
+  Plus,
+  SlidersHorizontal,
+  Trash2,
+} from "lucide-react";
+import React, { useState } from "react";
+import BillingGuidelinesPanel from "../components/BillingGuidelinesPanel";
+import ColumnMappingWizard from "../components/ColumnMappingWizard";
 import FileUpload from "../components/FileUpload";
 import InfoPanel from "../components/InfoPanel";
 import LedesTable from "../components/LedesTable";
+import MatterSettingsPanel from "../components/MatterSettingsPanel";
 import ValidationPanel from "../components/ValidationPanel";
+import ValidationSettings from "../components/ValidationSettings";
 import { useLedesData } from "../hooks/useLedesData";
+import {
+  ENCODING_OPTIONS,
+  encodingLabel,
+  findEncodingWarnings,
+} from "../lib/encoding";
+import { SpreadsheetImporter } from "../lib/spreadsheetImport";
+import { cn } from "../lib/utils";
+import {
+  ColumnMapping,
+  EncodingWarning,
+  FileEncoding,
+  LedesFormat,
+  LedesXmlVersion,
+  LineEnding,
+  MergeReport,
+  SpreadsheetTable,
+  TextEncodingName,
+  ValidationFix,
+  ValidationSeverity,
+} from "../lib/types";
+import { VALIDATION_SEVERITIES } from "../lib/validationRules";
+
+const SEVERITY_STATUS: Record<
+  ValidationSeverity,
+  { singular: string; plural: string; className: string }
+> = {
+  error: { singular: "error", plural: "errors", className: "text-red-600" },
+  warning: {
+    singular: "warning",
+    plural: "warnings",
+    className: "text-yellow-700",
+  },
+  info: { singular: "note", plural: "notes", className: "text-blue-600" },
+};
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<"editor" | "validation" | "info">(
-    "editor"
-  );
+  const [activeTab, setActiveTab] = useState<
+    "editor" | "validation" | "rules" | "info"
+  >("editor");
   const [showUpload, setShowUpload] = useState(true);
+  const [lineEnding, setLineEnding] = useState<LineEnding>("CRLF");
+  const [downloadFormat, setDownloadFormat] = useState<
+    "ledes" | "zip" | `xml-${LedesXmlVersion}` | "csv" | "xlsx" | "json"
+  >("ledes");
+  const [includeValidationErrors, setIncludeValidationErrors] = useState(false);
+  const [escapeFormulas, setEscapeFormulas] = useState(true);
+  const [uploadEncoding, setUploadEncoding] = useState<
+    TextEncodingName | "auto"
+  >("auto");
+  // "original" keeps whatever encoding the file was loaded with
+  const [downloadEncoding, setDownloadEncoding] = useState("original");
+  const [encodingWarnings, setEncodingWarnings] = useState<
+    EncodingWarning[] | null
+  >(null);
+  // Severities shown in the validation panel
+  const [severityFilter, setSeverityFilter] = useState<ValidationSeverity[]>(
+    VALIDATION_SEVERITIES
+  );
+  // Spreadsheet awaiting column mapping
+  const [mappingTable, setMappingTable] = useState<SpreadsheetTable | null>(
+    null
+  );
 
   const {
     data,
+    conversionReport,
+    mergeReport,
     validationResult,
     validationSummary,
+    validationProfile,
+    matterSettings,
+    billingGuidelines,
     isValidating,
+    validationProgress,
     isLoading,
+    loadProgress,
     error,
-    loadFile,
+    loadFiles,
+    openSpreadsheet,
+    importSpreadsheet,
+    cancelLoad,
     saveFile,
     updateCell,
     addRow,
     deleteRow,
+    renumberLines,
     clearData,
     createEmptyDataset,
+    convertFormat,
     validateData,
     getCellValidation,
+    setValidationProfile,
+    setMatterSettings,
+    setBillingGuidelines,
     setError,
+    setConversionReport,
+    setMergeReport,
   } = useLedesData();
 
-  // Auto-validate after data changes (debounced)
-  useEffect(() => {
-    if (data.rows.length > 0) {
-      const timer = setTimeout(() => {
-        console.log("Running validation from useEffect");
-        validateData();
-      }, 300);
+  // Mirrors handleConvert: a merge that drops values needs confirming
+  const confirmMergeDataLoss = (report: MergeReport) => {
+    const lossy = report.files.filter(
+      (file) => (file.rows_with_data_loss?.length ?? 0) > 0
+    );
+    const fields = new Set<string>();
+    lossy.forEach((file) =>
+      file.dropped_fields?.forEach((field) => fields.add(field))
+    );
+    return confirm(
+      `Converting ${lossy.map((file) => file.file).join(", ")} to ${
+        report.format === "LEDES1998B" ? "LEDES 1998B" : "LEDES98BI"
+      } drops ${Array.from(fields).join(
+        ", "
+      )}. Those values will be lost. Continue?`
+    );
+  };
 
-      return () => clearTimeout(timer);
+  const handleFilesLoad = async (files: File[]) => {
+    const spreadsheets = files.filter((f) =>
+      SpreadsheetImporter.isSpreadsheet(f)
+    );
+    if (spreadsheets.length > 0) {
+      if (files.length > 1) {
+        setError("Spreadsheets have to be imported one at a time");
+        return;
+      }
+      setMappingTable(await openSpreadsheet(files[0]));
+      return;
     }
-  }, [data, validateData]);
 
-  const handleFileLoad = async (file: File) => {
-    setShowUpload(false);
-    await loadFile(file);
+    // Keep the upload panel up while loading so progress and errors stay visible
+    if (
+      await loadFiles(files, {
+        encoding: uploadEncoding === "auto" ? undefined : uploadEncoding,
+        confirmDataLoss: confirmMergeDataLoss,
+      })
+    ) {
+      setShowUpload(false);
+    }
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Reset so picking the same file again still fires onChange
+    e.target.value = "";
+    if (files.length > 0) {
+      loadFiles(files, {
+        append: true,
+        encoding: uploadEncoding === "auto" ? undefined : uploadEncoding,
+        confirmDataLoss: confirmMergeDataLoss,
+      });
+    }
+  };
+
+  const handleImport = (mapping: ColumnMapping, format: LedesFormat) => {
+    if (mappingTable && importSpreadsheet(mappingTable, mapping, format)) {
+      setMappingTable(null);
+      setShowUpload(false);
+    }
+  };
+
+  // XLSX is binary and JSON is always UTF-8
+  const isTextDownload = downloadFormat !== "xlsx" && downloadFormat !== "json";
+
+  const handleDownload = () => {
+    const encoding: FileEncoding = ENCODING_OPTIONS.find(
+      (o) => o.id === downloadEncoding
+    )?.encoding ??
+      data.encoding ?? { name: "utf-8", bom: false };
+
+    const warnings = isTextDownload ? findEncodingWarnings(data, encoding) : [];
+    if (warnings.length > 0) {
+      setEncodingWarnings(warnings);
+      if (
+        !confirm(
+          `${warnings.length} cell${
+            warnings.length !== 1 ? "s contain" : " contains"
+          } characters that ${encodingLabel(
+            encoding
+          )} cannot represent. They will be written as "?". Continue?`
+        )
+      ) {
+        return;
+      }
+    } else {
+      setEncodingWarnings(null);
+    }
+
+    // Warnings and notes never block a download; errors need confirming
+    const errorCount = validationSummary.bySeverity.error;
+    if (
+      errorCount > 0 &&
+      !confirm(
+        `The data has ${errorCount} validation error${
+          errorCount !== 1 ? "s" : ""
+        }. Download anyway?`
+      )
+    ) {
+      return;
+    }
+
+    if (downloadFormat === "ledes" || downloadFormat === "zip") {
+      saveFile(downloadFormat, { lineEnding, encoding, escapeFormulas });
+    } else if (downloadFormat.startsWith("xml-")) {
+      saveFile("xml", {
+        xmlVersion: downloadFormat.replace("xml-", "") as LedesXmlVersion,
+        encoding,
+      });
+    } else {
+      saveFile(downloadFormat as "csv" | "xlsx" | "json", {
+        encoding,
+        includeValidationErrors,
+        escapeFormulas,
+      });
+    }
   };
 
   const handleCreateNew = () => {
@@ -55,7 +244,31 @@ export default function Home() {
     setShowUpload(false);
   };
 
+  const handleConvert = () => {
+    const target = data.format === "LEDES1998B" ? "LEDES98BI" : "LEDES1998B";
+    if (
+      target === "LEDES1998B" &&
+      !confirm(
+        "LEDES 1998B has no tax, currency or address fields. Those values will be dropped. Continue?"
+      )
+    ) {
+      return;
+    }
+    convertFormat(target);
+  };
+
+  const handleApplyFixes = (fixes: ValidationFix[]) => {
+    fixes.forEach((fix) =>
+      fix.changes.forEach((change) =>
+        updateCell(change.row - 1, change.field, change.value)
+      )
+    );
+  };
+
   const hasData = data.rows.length > 0;
+  const fileCount = new Set(
+    data.sources?.map((source) => source.file).filter(Boolean)
+  ).size;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -77,6 +290,25 @@ export default function Home() {
 
             {hasData && (
               <div className="flex items-center space-x-3">
+                <label
+                  className={cn(
+                    "inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer",
+                    isLoading && "opacity-50 pointer-events-none"
+                  )}
+                  title="Load more LEDES files into this workspace"
+                >
+                  <input
+                    type="file"
+                    accept=".txt,text/plain,.xml,application/xml,text/xml"
+                    multiple
+                    onChange={handleAddFiles}
+                    className="hidden"
+                    disabled={isLoading}
+                  />
+                  <FilePlus className="h-4 w-4 mr-2" />
+                  Add Files
+                </label>
+
                 <button
                   onClick={addRow}
                   className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -86,7 +318,113 @@ export default function Home() {
                 </button>
 
                 <button
-                  onClick={() => saveFile()}
+                  onClick={renumberLines}
+                  title="Number each invoice's lines 1, 2, 3... in their current row order"
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <ListOrdered className="h-4 w-4 mr-2" />
+                  Renumber Lines
+                </button>
+
+                <button
+                  onClick={handleConvert}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <ArrowLeftRight className="h-4 w-4 mr-2" />
+                  {data.format === "LEDES1998B"
+                    ? "Convert to 98BI"
+                    : "Convert to 1998B"}
+                </button>
+
+                <select
+                  value={downloadFormat}
+                  onChange={(e) =>
+                    setDownloadFormat(e.target.value as typeof downloadFormat)
+                  }
+                  title="File format of the download"
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="ledes">
+                    {data.format === "LEDES1998B" ? "LEDES 1998B" : "LEDES98BI"}{" "}
+                    (.txt)
+                  </option>
+                  <option value="zip">One file per invoice (.zip)</option>
+                  <option value="xml-2.1">LEDES XML 2.1 (.xml)</option>
+                  <option value="xml-2.0">LEDES XML 2.0 (.xml)</option>
+                  <option value="csv">CSV (.csv)</option>
+                  <option value="xlsx">Excel (.xlsx)</option>
+                  <option value="json">JSON (.json)</option>
+                </select>
+
+                {(downloadFormat === "ledes" || downloadFormat === "zip") && (
+                  <select
+                    value={lineEnding}
+                    onChange={(e) =>
+                      setLineEnding(e.target.value as LineEnding)
+                    }
+                    title="Line endings used in the downloaded file"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="CRLF">CRLF (Windows)</option>
+                    <option value="LF">LF (Unix)</option>
+                  </select>
+                )}
+
+                {(downloadFormat === "csv" ||
+                  downloadFormat === "xlsx" ||
+                  downloadFormat === "json") && (
+                  <label className="inline-flex items-center space-x-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={includeValidationErrors}
+                      onChange={(e) =>
+                        setIncludeValidationErrors(e.target.checked)
+                      }
+                      className="rounded border-gray-300"
+                    />
+                    <span>Include errors</span>
+                  </label>
+                )}
+
+                {(downloadFormat === "csv" || downloadFormat === "zip") && (
+                  <label
+                    title="Prefix cells starting with =, +, - or @ with an apostrophe so spreadsheet apps do not run them as formulas"
+                    className="inline-flex items-center space-x-1 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={escapeFormulas}
+                      onChange={(e) => setEscapeFormulas(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>Escape formulas</span>
+                  </label>
+                )}
+
+                {isTextDownload && (
+                  <select
+                    value={downloadEncoding}
+                    onChange={(e) => setDownloadEncoding(e.target.value)}
+                    title="Character encoding of the downloaded file"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="original">
+                      Original (
+                      {encodingLabel(
+                        data.encoding ?? { name: "utf-8", bom: false }
+                      )}
+                      )
+                    </option>
+                    {ENCODING_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                <button
+                  onClick={handleDownload}
                   className="inline-flex items-center px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
                   <Download className="h-4 w-4 mr-2" />
@@ -112,12 +450,23 @@ export default function Home() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {showUpload && !hasData ? (
+        {mappingTable ? (
+          <ColumnMappingWizard
+            table={mappingTable}
+            onImport={handleImport}
+            onCancel={() => setMappingTable(null)}
+            error={error}
+          />
+        ) : showUpload && !hasData ? (
           <div className="max-w-2xl mx-auto">
             <FileUpload
-              onFileLoad={handleFileLoad}
+              onFilesLoad={handleFilesLoad}
+              onCancel={cancelLoad}
               isLoading={isLoading}
+              progress={loadProgress}
               error={error}
+              encoding={uploadEncoding}
+              onEncodingChange={setUploadEncoding}
             />
 
             <div className="mt-8 text-center">
@@ -147,10 +496,68 @@ export default function Home() {
                 <div className="flex items-center space-x-6 text-sm text-gray-600">
                   <span>{data.rows.length} rows</span>
                   <span>{data.headers.length} columns</span>
-                  {validationSummary.hasErrors && (
-                    <span className="text-red-600 font-medium">
-                      {validationSummary.totalErrors} validation error
-                      {validationSummary.totalErrors !== 1 ? "s" : ""}
+                  {fileCount > 1 && <span>{fileCount} files</span>}
+                  {isLoading && loadProgress && (
+                    <span className="text-blue-700">
+                      Loading {loadProgress.fileName}
+                      {loadProgress.fileCount !== undefined &&
+                        loadProgress.fileCount > 1 &&
+                        ` (${(loadProgress.fileIndex ?? 0) + 1} of ${
+                          loadProgress.fileCount
+                        })`}
+                      …{" "}
+                      <button
+                        onClick={cancelLoad}
+                        className="underline hover:text-blue-900"
+                      >
+                        Cancel
+                      </button>
+                    </span>
+                  )}
+                  <span>
+                    {data.format === "LEDES1998B" ? "LEDES 1998B" : "LEDES98BI"}
+                  </span>
+                  {data.parseReport &&
+                    data.parseReport.discarded_lines.length > 0 && (
+                      <span className="text-yellow-700">
+                        {data.parseReport.discarded_lines.length} line
+                        {data.parseReport.discarded_lines.length !== 1
+                          ? "s"
+                          : ""}{" "}
+                        discarded
+                      </span>
+                    )}
+                  {VALIDATION_SEVERITIES.map((severity) => {
+                    const count = validationSummary.bySeverity[severity];
+                    const status = SEVERITY_STATUS[severity];
+                    return (
+                      count > 0 && (
+                        <button
+                          key={severity}
+                          onClick={() => {
+                            setSeverityFilter([severity]);
+                            setActiveTab("validation");
+                          }}
+                          className={cn(
+                            "font-medium hover:underline",
+                            status.className
+                          )}
+                          title={`Show only ${status.plural}`}
+                        >
+                          {count}{" "}
+                          {count !== 1 ? status.plural : status.singular}
+                        </button>
+                      )
+                    );
+                  })}
+                  {validationProgress && (
+                    <span className="text-gray-500">
+                      Validating{" "}
+                      {Math.floor(
+                        (validationProgress.done / validationProgress.total) *
+                          100
+                      )}
+                      %
                     </span>
                   )}
                 </div>
@@ -175,12 +582,32 @@ export default function Home() {
                     }`}
                   >
                     Validation
-                    {validationSummary.hasErrors && (
-                      <span className="ml-1 bg-red-500 text-white text-xs rounded-full px-2 py-0.5">
-                        {validationSummary.totalErrors}
+                    {validationSummary.hasIssues && (
+                      <span
+                        className={cn(
+                          "ml-1 text-white text-xs rounded-full px-2 py-0.5",
+                          validationSummary.hasErrors
+                            ? "bg-red-500"
+                            : "bg-yellow-500"
+                        )}
+                      >
+                        {validationSummary.hasErrors
+                          ? validationSummary.bySeverity.error
+                          : validationSummary.totalIssues}
                       </span>
                     )}
                   </button>
+                  <button
+                    onClick={() => setActiveTab("rules")}
+                    className={`px-3 py-2 text-sm font-medium rounded-md ${
+                      activeTab === "rules"
+                        ? "bg-blue-100 text-blue-700"
+                        : "text-gray-500 hover:text-gray-700"
+                    }`}
+                  >
+                    <SlidersHorizontal className="h-4 w-4 mr-1 inline" />
+                    Rules
+                  </button>
                   <button
                     onClick={() => setActiveTab("info")}
                     className={`px-3 py-2 text-sm font-medium rounded-md ${
@@ -196,11 +623,145 @@ export default function Home() {
               </div>
             </div>
 
+            {/* Conversion Report */}
+            {encodingWarnings && encodingWarnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <div className="flex items-start">
+                  <div className="flex-shrink-0">
+                    <Info className="h-5 w-5 text-yellow-400" />
+                  </div>
+                  <div className="ml-3 text-sm text-yellow-800 space-y-1">
+                    <p className="font-medium">
+                      Characters the download encoding cannot represent (written
+                      as &quot;?&quot;)
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto space-y-0.5">
+                      {encodingWarnings.map((warning) => (
+                        <li key={`${warning.row}-${warning.field}`}>
+                          Row {warning.row}, {warning.field}:{" "}
+                          {warning.characters.join(" ")}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="ml-auto">
+                    <button
+                      onClick={() => setEncodingWarnings(null)}
+                      className="text-yellow-400 hover:text-yellow-600"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {mergeReport && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <div className="flex items-start">
+                  <div className="flex-shrink-0">
+                    <Info className="h-5 w-5 text-blue-400" />
+                  </div>
+                  <div className="ml-3 text-sm text-blue-800 space-y-1">
+                    <p className="font-medium">
+                      Merged {mergeReport.files.length} file
+                      {mergeReport.files.length !== 1 ? "s" : ""} into the{" "}
+                      {mergeReport.format === "LEDES1998B"
+                        ? "LEDES 1998B"
+                        : "LEDES98BI"}{" "}
+                      workspace
+                    </p>
+                    {mergeReport.files.map((file) => (
+                      <p key={file.file}>
+                        {file.file}: {file.rows} row
+                        {file.rows !== 1 ? "s" : ""}
+                        {file.converted_from &&
+                          `, converted from ${file.converted_from}`}
+                        {file.dropped_fields &&
+                          file.dropped_fields.length > 0 &&
+                          `, dropped ${file.dropped_fields.join(", ")}`}
+                        {file.rows_with_data_loss &&
+                          file.rows_with_data_loss.length > 0 &&
+                          ` (data lost on ${
+                            file.rows_with_data_loss.length
+                          } row${
+                            file.rows_with_data_loss.length !== 1 ? "s" : ""
+                          })`}
+                        {file.missing_fields.length > 0 &&
+                          `, no column for ${file.missing_fields.join(
+                            ", "
+                          )} (left empty)`}
+                        {file.extra_fields.length > 0 &&
+                          `, added non-standard ${file.extra_fields.join(
+                            ", "
+                          )}`}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="ml-auto">
+                    <button
+                      onClick={() => setMergeReport(null)}
+                      className="text-blue-400 hover:text-blue-600"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {conversionReport && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <div className="flex items-start">
+                  <div className="flex-shrink-0">
+                    <Info className="h-5 w-5 text-blue-400" />
+                  </div>
+                  <div className="ml-3 text-sm text-blue-800 space-y-1">
+                    <p className="font-medium">
+                      Converted from {conversionReport.from} to{" "}
+                      {conversionReport.to}
+                    </p>
+                    {conversionReport.dropped_fields.length > 0 && (
+                      <p>
+                        Dropped fields:{" "}
+                        {conversionReport.dropped_fields.join(", ")}
+                        {conversionReport.rows_with_data_loss.length > 0 &&
+                          ` (data lost on ${
+                            conversionReport.rows_with_data_loss.length
+                          } row${
+                            conversionReport.rows_with_data_loss.length !== 1
+                              ? "s"
+                              : ""
+                          })`}
+                      </p>
+                    )}
+                    {conversionReport.defaulted_fields.length > 0 && (
+                      <p>
+                        Defaulted fields:{" "}
+                        {conversionReport.defaulted_fields
+                          .map((d) => `${d.field} (${d.value})`)
+                          .join(", ")}
+                      </p>
+                    )}
+                  </div>
+                  <div className="ml-auto">
+                    <button
+                      onClick={() => setConversionReport(null)}
+                      className="text-blue-400 hover:text-blue-600"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Content */}
             {activeTab === "editor" && (
               <LedesTable
                 data={data.rows}
                 headers={data.headers}
+                format={data.format}
                 onCellUpdate={updateCell}
                 getCellValidation={getCellValidation}
                 isLoading={isLoading}
@@ -210,11 +771,36 @@ export default function Home() {
             {activeTab === "validation" && (
               <ValidationPanel
                 validationResult={validationResult}
+                parseReport={data.parseReport}
                 isValidating={isValidating}
+                validationProgress={validationProgress}
                 onValidate={validateData}
+                severityFilter={severityFilter}
+                onSeverityFilterChange={setSeverityFilter}
+                onApplyFixes={handleApplyFixes}
               />
             )}
 
+            {activeTab === "rules" && (
+              <>
+                <MatterSettingsPanel
+                  rows={data.rows}
+                  settings={matterSettings}
+                  onSettingsChange={setMatterSettings}
+                  profile={validationProfile}
+                  guidelines={billingGuidelines}
+                />
+                <BillingGuidelinesPanel
+                  guidelines={billingGuidelines}
+                  onGuidelinesChange={setBillingGuidelines}
+                />
+                <ValidationSettings
+                  profile={validationProfile}
+                  onProfileChange={setValidationProfile}
+                />
+              </>
+            )}
+
             {activeTab === "info" && <InfoPanel data={data} />}
 
             {/* Error Display */}
@@ -0,0 +1,362 @@
+import {
+  AlertTriangle,
+  Download,
+  Plus,
+  Scale,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { useRef, useState } from "react";
+import {
+  BillingGuidelines,
+  BillingGuidelinesMap,
+  billingGuidelinesToJson,
+  createBillingGuidelines,
+  parseBillingGuidelines,
+} from "../lib/guidelines";
+import { TIMEKEEPER_CLASSIFICATIONS } from "../lib/ledesFields";
+import { downloadBlob, generateId } from "../lib/utils";
+
+interface BillingGuidelinesPanelProps {
+  guidelines: BillingGuidelinesMap;
+  onGuidelinesChange: (guidelines: BillingGuidelinesMap) => void;
+}
+
+const INPUT_CLASS =
+  "px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const BUTTON_CLASS =
+  "inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50";
+
+function parseCodes(input: string): string[] {
+  return input
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+// Blank means no limit
+function parseLimit(input: string): number | undefined {
+  const value = parseFloat(input);
+  return value > 0 ? value : undefined;
+}
+
+// The roster is edited as one "ID = classification" line per timekeeper
+function rosterInputValue(timekeepers: Record<string, string>): string {
+  return Object.entries(timekeepers)
+    .map(([timekeeper, classification]) => `${timekeeper} = ${classification}`)
+    .join("\n");
+}
+
+function parseRoster(input: string): Record<string, string> {
+  const timekeepers: Record<string, string> = {};
+  input.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    const [timekeeper, classification = ""] = line
+      .split("=")
+      .map((part) => part.trim());
+    const code = classification.toUpperCase();
+    if (
+      !timekeeper ||
+      !Object.prototype.hasOwnProperty.call(TIMEKEEPER_CLASSIFICATIONS, code)
+    ) {
+      throw new Error(
+        `Roster line ${index + 1}: expected "ID = ${Object.keys(
+          TIMEKEEPER_CLASSIFICATIONS
+        ).join("/")}"`
+      );
+    }
+    timekeepers[timekeeper] = code;
+  });
+  return timekeepers;
+}
+
+export default function BillingGuidelinesPanel({
+  guidelines,
+  onGuidelinesChange,
+}: BillingGuidelinesPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const all = Object.values(guidelines);
+  const selected =
+    (selectedId && guidelines[selectedId]) || all[0] || undefined;
+
+  const update = (changes: Partial<BillingGuidelines>) => {
+    if (!selected) return;
+    onGuidelinesChange({
+      ...guidelines,
+      [selected.id]: { ...selected, ...changes },
+    });
+  };
+
+  const add = (added: BillingGuidelines) => {
+    onGuidelinesChange({ ...guidelines, [added.id]: added });
+    setSelectedId(added.id);
+    setError(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      add(parseBillingGuidelines(await file.text(), generateId()));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to import guidelines"
+      );
+    }
+  };
+
+  const handleExport = () => {
+    if (!selected) return;
+    const fileName =
+      selected.name.trim().replace(/[^\w-]+/g, "_") || "billing_guidelines";
+    downloadBlob(
+      billingGuidelinesToJson(selected),
+      `${fileName}.json`,
+      "application/json"
+    );
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`Delete the ${selected.name} guidelines?`)) {
+      return;
+    }
+    const remaining = { ...guidelines };
+    delete remaining[selected.id];
+    onGuidelinesChange(remaining);
+    setSelectedId(null);
+  };
+
+  // Inputs are uncontrolled and commit on blur; the key remounts them when
+  // another set is selected or imported
+  const inputKey = (value: unknown) =>
+    `${selected?.id}:${JSON.stringify(value)}`;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-2">
+          <Scale className="h-5 w-5 text-blue-500" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            Billing Guidelines
+          </h2>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => add(createBillingGuidelines("New guidelines"))}
+            className={BUTTON_CLASS}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={BUTTON_CLASS}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+          <button
+            onClick={handleExport}
+            disabled={!selected}
+            className={BUTTON_CLASS}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={!selected}
+            className={BUTTON_CLASS}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!selected ? (
+        <p className="text-sm text-gray-600">
+          No billing guidelines yet. Create or import a set, then assign it to
+          matters above.
+        </p>
+      ) : (
+        <div className="space-y-4 text-sm">
+          <div className="flex items-center space-x-4">
+            {all.length > 1 && (
+              <select
+                value={selected.id}
+                onChange={(e) => setSelectedId(e.target.value)}
+                className={INPUT_CLASS}
+              >
+                {all.map((g) => (
+                  <option key={g.id} value={g.id}>
+                    {g.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label htmlFor="guidelines-name" className="text-gray-600">
+              Name
+            </label>
+            <input
+              key={inputKey(selected.name)}
+              id="guidelines-name"
+              type="text"
+              defaultValue={selected.name}
+              onBlur={(e) =>
+                update({ name: e.target.value.trim() || selected.name })
+              }
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <h3 className="font-medium text-gray-900 mb-2">
+              Maximum hourly rate
+            </h3>
+            <div className="flex flex-wrap gap-4">
+              {Object.entries(TIMEKEEPER_CLASSIFICATIONS).map(
+                ([classification, label]) => (
+                  <label
+                    key={classification}
+                    className="flex items-center space-x-2 text-gray-600"
+                  >
+                    <span>{label}</span>
+                    <input
+                      key={inputKey(selected.maxRates[classification])}
+                      type="number"
+                      min={0}
+                      step={1}
+                      defaultValue={selected.maxRates[classification] ?? ""}
+                      onBlur={(e) => {
+                        const maxRates = { ...selected.maxRates };
+                        const rate = parseLimit(e.target.value);
+                        if (rate === undefined) {
+                          delete maxRates[classification];
+                        } else {
+                          maxRates[classification] = rate;
+                        }
+                        update({ maxRates });
+                      }}
+                      className={`${INPUT_CLASS} w-24`}
+                    />
+                  </label>
+                )
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center space-x-2 text-gray-600">
+              <span>Maximum units per timekeeper per day</span>
+              <input
+                key={inputKey(selected.maxDailyUnits)}
+                type="number"
+                min={0}
+                step={0.5}
+                defaultValue={selected.maxDailyUnits ?? ""}
+                onBlur={(e) =>
+                  update({ maxDailyUnits: parseLimit(e.target.value) })
+                }
+                className={`${INPUT_CLASS} w-24`}
+              />
+            </label>
+            <label className="flex items-center space-x-2 text-gray-600">
+              <span>Minimum billing increment</span>
+              <input
+                key={inputKey(selected.billingIncrement)}
+                type="number"
+                min={0}
+                step={0.05}
+                defaultValue={selected.billingIncrement ?? ""}
+                onBlur={(e) =>
+                  update({ billingIncrement: parseLimit(e.target.value) })
+                }
+                className={`${INPUT_CLASS} w-24`}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center space-x-2 text-gray-600">
+            <span>Disallowed task and activity codes</span>
+            <input
+              key={inputKey(selected.disallowedCodes)}
+              type="text"
+              placeholder="L120, A111"
+              defaultValue={selected.disallowedCodes.join(", ")}
+              onBlur={(e) =>
+                update({ disallowedCodes: parseCodes(e.target.value) })
+              }
+              className={`${INPUT_CLASS} w-64`}
+            />
+          </label>
+
+          <label className="flex items-center space-x-2 text-gray-600">
+            <span>Non-billable expense codes</span>
+            <input
+              key={inputKey(selected.nonBillableExpenses)}
+              type="text"
+              placeholder="E111"
+              defaultValue={selected.nonBillableExpenses.join(", ")}
+              onBlur={(e) =>
+                update({ nonBillableExpenses: parseCodes(e.target.value) })
+              }
+              className={`${INPUT_CLASS} w-64`}
+            />
+          </label>
+
+          <div>
+            <label
+              htmlFor="guidelines-roster"
+              className="block font-medium text-gray-900"
+            >
+              Timekeeper roster
+            </label>
+            <p className="text-gray-600 mb-2">
+              One timekeeper per line as ID = classification. LEDES 98BI files
+              carry no classification, so rate caps need the roster; in 1998B
+              files the roster takes precedence over the file.
+            </p>
+            <textarea
+              key={inputKey(selected.timekeepers)}
+              id="guidelines-roster"
+              rows={5}
+              placeholder="JD = PT"
+              defaultValue={rosterInputValue(selected.timekeepers)}
+              onBlur={(e) => {
+                try {
+                  update({ timekeepers: parseRoster(e.target.value) });
+                  setError(null);
+                } catch (err) {
+                  setError(err instanceof Error ? err.message : String(err));
+                }
+              }}
+              className={`${INPUT_CLASS} w-full font-mono`}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { AlertTriangle, Save, Table, Trash2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { SpreadsheetImporter } from "../lib/spreadsheetImport";
+import {
+  ColumnMapping,
+  LEDES_FORMAT_HEADERS,
+  LedesFormat,
+  SavedColumnMapping,
+  SpreadsheetTable,
+} from "../lib/types";
+import { cn } from "../lib/utils";
+
+interface ColumnMappingWizardProps {
+  table: SpreadsheetTable;
+  onImport: (mapping: ColumnMapping, format: LedesFormat) => void;
+  onCancel: () => void;
+  error?: string | null;
+}
+
+const SAMPLE_ROWS = 3;
+
+function suggestedMapping(table: SpreadsheetTable, format: LedesFormat) {
+  const suggestions = SpreadsheetImporter.suggestMapping(table.columns, format);
+  const mapping: ColumnMapping = {};
+  const scores: Record<string, number> = {};
+  suggestions.forEach(({ column, field, score }) => {
+    mapping[column] = field;
+    scores[column] = score;
+  });
+  return { mapping, scores };
+}
+
+export default function ColumnMappingWizard({
+  table,
+  onImport,
+  onCancel,
+  error,
+}: ColumnMappingWizardProps) {
+  const [savedMappings, setSavedMappings] = useState<SavedColumnMapping[]>(() =>
+    SpreadsheetImporter.loadSavedMappings()
+  );
+
+  // A saved mapping that fits this layout wins over fresh suggestions
+  const [initial] = useState(() => {
+    const saved = SpreadsheetImporter.findSavedMapping(
+      table.columns,
+      savedMappings
+    );
+    if (saved) {
+      return {
+        format: saved.format,
+        mapping: SpreadsheetImporter.applySavedMapping(table.columns, saved),
+        scores: {} as Record<string, number>,
+        savedName: saved.name,
+      };
+    }
+    return {
+      format: "LEDES98BI" as LedesFormat,
+      ...suggestedMapping(table, "LEDES98BI"),
+      savedName: "",
+    };
+  });
+
+  const [format, setFormat] = useState<LedesFormat>(initial.format);
+  const [mapping, setMapping] = useState<ColumnMapping>(initial.mapping);
+  const [scores, setScores] = useState<Record<string, number>>(initial.scores);
+  const [appliedName, setAppliedName] = useState(initial.savedName);
+  const [saveName, setSaveName] = useState(initial.savedName);
+
+  const fields = LEDES_FORMAT_HEADERS[format].filter(
+    (field) => !field.startsWith("RESERVED")
+  );
+
+  const duplicateFields = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.values(mapping).forEach((field) => {
+      if (field) counts[field] = (counts[field] ?? 0) + 1;
+    });
+    return Object.keys(counts).filter((field) => counts[field] > 1);
+  }, [mapping]);
+
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+
+  const handleFormatChange = (next: LedesFormat) => {
+    const suggested = suggestedMapping(table, next);
+    setFormat(next);
+    setMapping(suggested.mapping);
+    setScores(suggested.scores);
+    setAppliedName("");
+  };
+
+  const handleApplySaved = (name: string) => {
+    const saved = savedMappings.find((m) => m.name === name);
+    if (!saved) return;
+    setFormat(saved.format);
+    setMapping(SpreadsheetImporter.applySavedMapping(table.columns, saved));
+    setScores({});
+    setAppliedName(saved.name);
+    setSaveName(saved.name);
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim();
+    if (!name) return;
+    setSavedMappings(SpreadsheetImporter.saveMapping(name, format, mapping));
+    setAppliedName(name);
+  };
+
+  const handleDeleteSaved = () => {
+    if (!appliedName) return;
+    setSavedMappings(SpreadsheetImporter.deleteSavedMapping(appliedName));
+    setAppliedName("");
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-3">
+          <Table className="h-6 w-6 text-blue-600" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Map Spreadsheet Columns
+            </h2>
+            <p className="text-sm text-gray-600">
+              {table.fileName}
+              {table.sheetName && ` · ${table.sheetName}`} · {table.rows.length}{" "}
+              row{table.rows.length !== 1 ? "s" : ""}
+            </p>
+          </div>
+        </div>
+
+        <select
+          value={format}
+          onChange={(e) => handleFormatChange(e.target.value as LedesFormat)}
+          title="LEDES format to import into"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="LEDES98BI">LEDES98BI</option>
+          <option value="LEDES1998B">LEDES 1998B</option>
+        </select>
+      </div>
+
+      {savedMappings.length > 0 && (
+        <div className="flex items-center space-x-2 text-sm">
+          <label htmlFor="saved-mapping" className="text-gray-600">
+            Saved mapping:
+          </label>
+          <select
+            id="saved-mapping"
+            value={appliedName}
+            onChange={(e) => handleApplySaved(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">None</option>
+            {savedMappings.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.name}
+              </option>
+            ))}
+          </select>
+          {appliedName && (
+            <button
+              onClick={handleDeleteSaved}
+              title="Delete this saved mapping"
+              className="p-1 text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">
+                Spreadsheet column
+              </th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">
+                Sample values
+              </th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">
+                LEDES field
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {table.columns.map((column, index) => {
+              const field = mapping[column];
+              const score = scores[column];
+              return (
+                <tr key={column}>
+                  <td className="px-4 py-2 font-medium text-gray-900">
+                    {column}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 max-w-xs truncate">
+                    {table.rows
+                      .slice(0, SAMPLE_ROWS)
+                      .map((row) => row[index])
+                      .filter(Boolean)
+                      .join(", ")}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={field ?? ""}
+                        onChange={(e) => {
+                          setMapping((prev) => ({
+                            ...prev,
+                            [column]: e.target.value || null,
+                          }));
+                          setScores((prev) => ({ ...prev, [column]: 1 }));
+                        }}
+                        className={cn(
+                          "px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500",
+                          field && duplicateFields.includes(field)
+                            ? "border-red-300 bg-red-50"
+                            : "border-gray-300"
+                        )}
+                      >
+                        <option value="">(ignore)</option>
+                        {fields.map((f) => (
+                          <option key={f} value={f}>
+                            {f}
+                          </option>
+                        ))}
+                      </select>
+                      {field && score !== undefined && score < 1 && (
+                        <span
+                          className="text-xs text-gray-500"
+                          title="Similarity of the column title to the field name"
+                        >
+                          {Math.round(score * 100)}% match
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {duplicateFields.length > 0 && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            More than one column is mapped to {duplicateFields.join(", ")}
+          </span>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Mapping name"
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!saveName.trim()}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-1" />
+            Save mapping
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(mapping, format)}
+            disabled={mappedCount === 0 || duplicateFields.length > 0}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            Import {table.rows.length} row{table.rows.length !== 1 ? "s" : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
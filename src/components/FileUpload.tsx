@@ -1,18 +1,34 @@
 import { AlertCircle, FileText, Upload } from "lucide-react";
 import React, { useCallback, useState } from "react";
+import { ENCODING_OPTIONS } from "../lib/encoding";
+import { SpreadsheetImporter } from "../lib/spreadsheetImport";
+import { LoadProgress, TextEncodingName } from "../lib/types";
 import { cn } from "../lib/utils";
 
 interface FileUploadProps {
-  onFileLoad: (file: File) => void;
+  onFilesLoad: (files: File[]) => void;
+  onCancel?: () => void;
   isLoading?: boolean;
+  progress?: LoadProgress | null;
   error?: string | null;
+  encoding?: TextEncodingName | "auto";
+  onEncodingChange?: (encoding: TextEncodingName | "auto") => void;
 }
 
 export default function FileUpload({
-  onFileLoad,
+  onFilesLoad,
+  onCancel,
   isLoading = false,
+  progress,
   error,
+  encoding = "auto",
+  onEncodingChange,
 }: FileUploadProps) {
+  const percent =
+    progress && progress.totalBytes > 0
+      ? Math.round((progress.bytesRead / progress.totalBytes) * 100)
+      : 0;
+
   const [isDragOver, setIsDragOver] = useState(false);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -41,26 +57,38 @@ export default function FileUpload({
       setIsDragOver(false);
 
       if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        const file = e.dataTransfer.files[0];
-        if (file.type === "text/plain" || file.name.endsWith(".txt")) {
-          onFileLoad(file);
+        const files = Array.from(e.dataTransfer.files);
+        const unsupported = files.filter(
+          (file) =>
+            !(
+              file.type === "text/plain" ||
+              file.name.endsWith(".txt") ||
+              file.name.toLowerCase().endsWith(".xml") ||
+              SpreadsheetImporter.isSpreadsheet(file)
+            )
+        );
+        if (unsupported.length === 0) {
+          onFilesLoad(files);
         } else {
-          alert("Please upload a .txt file");
+          alert(
+            `Please upload .txt, .xml, .csv or .xlsx files (not ${unsupported
+              .map((file) => file.name)
+              .join(", ")})`
+          );
         }
         e.dataTransfer.clearData();
       }
     },
-    [onFileLoad]
+    [onFilesLoad]
   );
 
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files.length > 0) {
-        const file = e.target.files[0];
-        onFileLoad(file);
+        onFilesLoad(Array.from(e.target.files));
       }
     },
-    [onFileLoad]
+    [onFilesLoad]
   );
 
   return (
@@ -71,7 +99,7 @@ export default function FileUpload({
           isDragOver
             ? "border-blue-400 bg-blue-50"
             : "border-gray-300 hover:border-gray-400",
-          isLoading && "opacity-50 pointer-events-none"
+          isLoading && "pointer-events-none"
         )}
         onDragEnter={handleDragIn}
         onDragLeave={handleDragOut}
@@ -90,15 +118,46 @@ export default function FileUpload({
               {isLoading ? "Loading file..." : "Upload LEDES98BI File"}
             </h3>
             <p className="text-gray-600">
-              Drag and drop your .txt file here, or click to browse
+              Drag and drop your .txt, .xml, .csv or .xlsx file here, or click
+              to browse. Drop several LEDES files to load them together.
             </p>
           </div>
 
-          <label className="cursor-pointer">
+          {isLoading && (
+            <div className="w-full max-w-sm space-y-2 pointer-events-auto">
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                {progress?.fileCount !== undefined &&
+                  progress.fileCount > 1 &&
+                  `File ${(progress.fileIndex ?? 0) + 1} of ${
+                    progress.fileCount
+                  } · `}
+                {percent}%
+                {progress &&
+                  ` · ${progress.rowsParsed.toLocaleString()} rows parsed`}
+              </p>
+              {onCancel && (
+                <button
+                  onClick={onCancel}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          )}
+
+          <label className={cn("cursor-pointer", isLoading && "opacity-50")}>
             <input
               type="file"
-              accept=".txt,text/plain"
+              accept=".txt,text/plain,.xml,application/xml,text/xml,.csv,.tsv,.xlsx,.xls"
               onChange={handleFileSelect}
+              multiple
               className="hidden"
               disabled={isLoading}
             />
@@ -110,6 +169,32 @@ export default function FileUpload({
         </div>
       </div>
 
+      {onEncodingChange && (
+        <div className="flex items-center justify-end space-x-2 text-sm">
+          <label htmlFor="upload-encoding" className="text-gray-600">
+            Character encoding:
+          </label>
+          <select
+            id="upload-encoding"
+            value={encoding}
+            onChange={(e) =>
+              onEncodingChange(e.target.value as TextEncodingName | "auto")
+            }
+            disabled={isLoading}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="auto">Auto-detect</option>
+            {ENCODING_OPTIONS.filter(
+              (o) => !(o.encoding.name === "utf-8" && o.encoding.bom)
+            ).map((option) => (
+              <option key={option.id} value={option.encoding.name}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {error && (
         <div className="flex items-center space-x-2 p-4 bg-red-50 border border-red-200 rounded-md">
           <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
@@ -123,6 +208,11 @@ export default function FileUpload({
           <li>Data should be pipe-delimited (|)</li>
           <li>First line can be headers (optional)</li>
           <li>Supports all 52 LEDES98BI fields</li>
+          <li>LEDES XML 2.0 and 2.1 files are also accepted</li>
+          <li>
+            CSV and Excel spreadsheets are imported after mapping their columns
+            to LEDES fields
+          </li>
         </ul>
       </div>
     </div>
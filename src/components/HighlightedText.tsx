@@ -0,0 +1,46 @@
+import { TextRange, ValidationSeverity } from "../lib/types";
+import { cn } from "../lib/utils";
+
+interface HighlightedTextProps {
+  text: string;
+  // Sorted and not overlapping, as findings carry them
+  ranges?: TextRange[];
+  severity: ValidationSeverity;
+}
+
+const MARK_STYLES: Record<ValidationSeverity, string> = {
+  error: "bg-red-200",
+  warning: "bg-yellow-200",
+  info: "bg-blue-200",
+};
+
+// Text with the parts a finding is about marked, e.g. a vague phrase
+export default function HighlightedText({
+  text,
+  ranges,
+  severity,
+}: HighlightedTextProps) {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: JSX.Element[] = [];
+  let from = 0;
+  ranges.forEach(({ start, end }, index) => {
+    // Ranges from before an edit may run past the current value
+    if (start < from || end > text.length) return;
+    parts.push(<span key={`text-${index}`}>{text.slice(from, start)}</span>);
+    parts.push(
+      <mark
+        key={`mark-${index}`}
+        className={cn("rounded-sm text-inherit", MARK_STYLES[severity])}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    from = end;
+  });
+  parts.push(<span key="text-end">{text.slice(from)}</span>);
+
+  return <>{parts}</>;
+}
@@ -1,4 +1,12 @@
 import { Calendar, FileText, Info, Users } from "lucide-react";
+import { encodingLabel } from "../lib/encoding";
+import {
+  describeField,
+  getFieldSpec,
+  isFieldRequired,
+  LEDES_DATE_FIELDS,
+  LINE_ITEM_TYPE_FIELDS,
+} from "../lib/ledesFields";
 import { LedesData } from "../lib/types";
 
 interface InfoPanelProps {
@@ -131,8 +139,24 @@ export default function InfoPanel({ data }: InfoPanelProps) {
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Format:</span>
-              <span className="font-medium">LEDES98BI</span>
+              <span className="font-medium">
+                {data.format === "LEDES1998B" ? "LEDES 1998B" : "LEDES98BI"}
+              </span>
             </div>
+            {data.version && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Version line:</span>
+                <span className="font-medium">{data.version}</span>
+              </div>
+            )}
+            {data.encoding && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Encoding:</span>
+                <span className="font-medium">
+                  {encodingLabel(data.encoding)}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-gray-600">Delimiter:</span>
               <span className="font-medium">Pipe (|)</span>
@@ -152,9 +176,22 @@ export default function InfoPanel({ data }: InfoPanelProps) {
               key={index}
               className="flex items-center justify-between text-sm"
             >
-              <span className="text-gray-600 truncate mr-2" title={field.name}>
-                {field.name}
-              </span>
+              <div className="flex items-center min-w-0 mr-2 space-x-2">
+                <span
+                  className="text-gray-600 truncate"
+                  title={field.description}
+                >
+                  {field.name}
+                </span>
+                {field.level && (
+                  <span className="text-xs text-gray-400">{field.level}</span>
+                )}
+                {field.missingRequired > 0 && (
+                  <span className="text-xs text-red-600 whitespace-nowrap">
+                    {field.missingRequired} missing
+                  </span>
+                )}
+              </div>
               <div className="flex items-center space-x-2">
                 <div className="w-16 bg-gray-200 rounded-full h-2">
                   <div
@@ -178,12 +215,7 @@ function getDateRange(data: LedesData): string {
   const dates: Date[] = [];
 
   data.rows.forEach((row) => {
-    [
-      "INVOICE_DATE",
-      "BILLING_START_DATE",
-      "BILLING_END_DATE",
-      "LINE_ITEM_DATE",
-    ].forEach((field) => {
+    LEDES_DATE_FIELDS.forEach((field) => {
       const dateStr = row[field];
       if (dateStr && dateStr.length === 8) {
         try {
@@ -212,12 +244,28 @@ function getDateRange(data: LedesData): string {
   return `${minDate.toLocaleDateString()} - ${maxDate.toLocaleDateString()}`;
 }
 
+// Fill rate per column, plus how many rows leave a required field empty
 function getFieldSummary(data: LedesData) {
+  const lineTypeField = LINE_ITEM_TYPE_FIELDS[data.format];
+
   return data.headers
     .map((header) => {
-      const filledCount = data.rows.filter(
-        (row) => row[header] && row[header].trim() !== ""
-      ).length;
+      const spec = getFieldSpec(header);
+      const isStandard = !!spec && spec.formats.includes(data.format);
+      let filledCount = 0;
+      let missingRequired = 0;
+
+      data.rows.forEach((row) => {
+        if (row[header] && row[header].trim() !== "") {
+          filledCount++;
+        } else if (
+          isStandard &&
+          isFieldRequired(spec, data.format, row[lineTypeField] || "")
+        ) {
+          missingRequired++;
+        }
+      });
+
       const fillPercentage =
         data.rows.length > 0
           ? Math.round((filledCount / data.rows.length) * 100)
@@ -225,8 +273,13 @@ function getFieldSummary(data: LedesData) {
 
       return {
         name: header,
+        description: isStandard
+          ? describeField(spec)
+          : `${header}\nNot a standard ${data.format} field`,
+        level: isStandard ? spec.level : undefined,
         fillPercentage,
         filledCount,
+        missingRequired,
       };
     })
     .sort((a, b) => b.fillPercentage - a.fillPercentage);
@@ -10,13 +10,31 @@ import {
   SortingState,
   useReactTable,
 } from "@tanstack/react-table";
-import { useCallback, useMemo, useState } from "react";
-import { LedesRow, ValidationError } from "../lib/types";
+import { KeyboardEvent, useCallback, useMemo, useState } from "react";
+import {
+  describeField,
+  getFieldSpec,
+  LedesFieldSpec,
+} from "../lib/ledesFields";
+import {
+  LedesFormat,
+  LedesRow,
+  ValidationError,
+  ValidationSeverity,
+} from "../lib/types";
+import {
+  allUtbmsCodes,
+  describeUtbmsCode,
+  UTBMS_CODE_FIELDS,
+  UtbmsCodeKind,
+} from "../lib/utbms";
 import { cn } from "../lib/utils";
+import HighlightedText from "./HighlightedText";
 
 interface LedesTableProps {
   data: LedesRow[];
   headers: string[];
+  format: LedesFormat;
   onCellUpdate: (rowIndex: number, columnId: string, value: string) => void;
   getCellValidation: (
     rowIndex: number,
@@ -27,6 +45,33 @@ interface LedesTableProps {
 
 const columnHelper = createColumnHelper<LedesRow>();
 
+const CELL_SEVERITY_STYLES: Record<
+  ValidationSeverity,
+  { cell: string; dot: string }
+> = {
+  error: { cell: "bg-red-50 border-red-200", dot: "bg-red-500" },
+  warning: { cell: "bg-yellow-50 border-yellow-200", dot: "bg-yellow-500" },
+  info: { cell: "bg-blue-50 border-blue-200", dot: "bg-blue-500" },
+};
+
+const UTBMS_CODE_KINDS: UtbmsCodeKind[] = ["task", "activity", "expense"];
+
+// Soft keyboard hint for the field's type
+function inputModeFor(spec: LedesFieldSpec | undefined) {
+  switch (spec?.type) {
+    case "amount":
+    case "decimal":
+      return "decimal";
+    case "integer":
+    case "date":
+      return "numeric";
+    case "email":
+      return "email";
+    default:
+      return "text";
+  }
+}
+
 /**
  * LedesTable component with keyboard navigation support:
  * - Tab: Move to next cell (Shift+Tab: previous cell)
@@ -38,6 +83,7 @@ const columnHelper = createColumnHelper<LedesRow>();
 export default function LedesTable({
   data,
   headers,
+  format,
   onCellUpdate,
   getCellValidation,
   isLoading = false,
@@ -107,16 +153,73 @@ export default function LedesTable({
     [editingCell, headers, data.length]
   );
 
+  const handleEditorKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const input =
+        e.currentTarget instanceof HTMLInputElement ? e.currentTarget : null;
+      switch (e.key) {
+        case "Enter":
+          e.preventDefault();
+          navigateToCell("down");
+          break;
+        case "Tab":
+          e.preventDefault();
+          if (e.shiftKey) {
+            navigateToCell("previous");
+          } else {
+            navigateToCell("next");
+          }
+          break;
+        case "ArrowDown":
+        case "ArrowUp":
+          // Selects use the arrow keys to change the value
+          if (!input) break;
+          e.preventDefault();
+          navigateToCell(e.key === "ArrowDown" ? "down" : "up");
+          break;
+        case "ArrowRight":
+          // Only navigate if cursor is at end of input
+          if (!input || input.selectionStart === input.value.length) {
+            e.preventDefault();
+            navigateToCell("next");
+          }
+          break;
+        case "ArrowLeft":
+          // Only navigate if cursor is at beginning of input
+          if (!input || input.selectionStart === 0) {
+            e.preventDefault();
+            navigateToCell("previous");
+          }
+          break;
+        case "Escape":
+          setEditingCell(null);
+          break;
+      }
+    },
+    [navigateToCell]
+  );
+
   const columns = useMemo(() => {
-    return headers.map((header) =>
-      columnHelper.accessor(header, {
+    return headers.map((header) => {
+      const spec = getFieldSpec(header);
+      const isStandard = !!spec && spec.formats.includes(format);
+      const codeKind = UTBMS_CODE_FIELDS[header];
+
+      return columnHelper.accessor(header, {
         id: header,
         header: () => (
           <div
             className="px-2 py-1 text-xs font-medium text-gray-900 truncate"
-            title={header}
+            title={
+              isStandard
+                ? describeField(spec)
+                : `${header}\nNot a standard ${format} field`
+            }
           >
             {header}
+            {isStandard && spec.requiredFor && (
+              <span className="ml-0.5 text-red-500">*</span>
+            )}
           </div>
         ),
         cell: ({ row, column, getValue }) => {
@@ -124,6 +227,8 @@ export default function LedesTable({
           const columnId = column.id;
           const value = getValue() as string;
           const validation = getCellValidation(rowIndex, columnId);
+          const codeDescription =
+            codeKind && value ? describeUtbmsCode(header, value) : undefined;
           const isEditing =
             editingCell?.row === rowIndex && editingCell?.column === columnId;
 
@@ -131,78 +236,87 @@ export default function LedesTable({
             <div
               className={cn(
                 "relative min-h-[32px] px-2 py-1 border-r border-gray-200",
-                validation && "bg-red-50 border-red-200",
+                validation && CELL_SEVERITY_STYLES[validation.severity].cell,
                 isEditing && "ring-2 ring-blue-500 ring-inset"
               )}
               onClick={() =>
                 setEditingCell({ row: rowIndex, column: columnId })
               }
             >
-              {isEditing ? (
+              {isEditing && spec?.allowedValues ? (
+                <select
+                  value={value}
+                  onChange={(e) =>
+                    onCellUpdate(rowIndex, columnId, e.target.value)
+                  }
+                  onBlur={() => setEditingCell(null)}
+                  onKeyDown={handleEditorKeyDown}
+                  className="w-full h-full border-none outline-none bg-transparent text-sm"
+                  autoFocus
+                >
+                  <option value="">-</option>
+                  {/* Keep a non-conforming value selectable until it is fixed */}
+                  {value &&
+                    !Object.prototype.hasOwnProperty.call(
+                      spec.allowedValues,
+                      value
+                    ) && <option value={value}>{value}</option>}
+                  {Object.entries(spec.allowedValues).map(([code, meaning]) => (
+                    <option key={code} value={code}>
+                      {code} — {meaning}
+                    </option>
+                  ))}
+                </select>
+              ) : isEditing ? (
                 <input
                   type="text"
                   value={value}
+                  inputMode={inputModeFor(spec)}
+                  maxLength={spec?.maxLength}
+                  list={codeKind ? `utbms-${codeKind}-codes` : undefined}
+                  placeholder={spec?.type === "date" ? "YYYYMMDD" : undefined}
                   onChange={(e) =>
                     onCellUpdate(rowIndex, columnId, e.target.value)
                   }
                   onBlur={() => setEditingCell(null)}
-                  onKeyDown={(e) => {
-                    switch (e.key) {
-                      case "Enter":
-                        e.preventDefault();
-                        navigateToCell("down");
-                        break;
-                      case "Tab":
-                        e.preventDefault();
-                        if (e.shiftKey) {
-                          navigateToCell("previous");
-                        } else {
-                          navigateToCell("next");
-                        }
-                        break;
-                      case "ArrowDown":
-                        e.preventDefault();
-                        navigateToCell("down");
-                        break;
-                      case "ArrowUp":
-                        e.preventDefault();
-                        navigateToCell("up");
-                        break;
-                      case "ArrowRight":
-                        // Only navigate if cursor is at end of input
-                        if (
-                          e.currentTarget.selectionStart ===
-                          e.currentTarget.value.length
-                        ) {
-                          e.preventDefault();
-                          navigateToCell("next");
-                        }
-                        break;
-                      case "ArrowLeft":
-                        // Only navigate if cursor is at beginning of input
-                        if (e.currentTarget.selectionStart === 0) {
-                          e.preventDefault();
-                          navigateToCell("previous");
-                        }
-                        break;
-                      case "Escape":
-                        setEditingCell(null);
-                        break;
-                    }
-                  }}
+                  onKeyDown={handleEditorKeyDown}
                   className="w-full h-full border-none outline-none bg-transparent text-sm"
                   autoFocus
                 />
               ) : (
                 <div
                   className="text-sm truncate cursor-pointer hover:bg-gray-50 min-h-[20px]"
-                  title={validation ? validation.error : value}
+                  title={
+                    validation
+                      ? validation.error
+                      : codeDescription
+                      ? `${value} — ${codeDescription}`
+                      : value
+                  }
                 >
-                  {value || <span className="text-gray-400">-</span>}
+                  {value ? (
+                    <HighlightedText
+                      text={value}
+                      ranges={validation?.highlights}
+                      severity={validation?.severity ?? "info"}
+                    />
+                  ) : (
+                    <span className="text-gray-400">-</span>
+                  )}
+                  {codeDescription && (
+                    <span className="ml-1 text-gray-500">
+                      {codeDescription}
+                    </span>
+                  )}
                 </div>
               )}
               {validation && (
-                <div className="absolute top-0 right-0 w-2 h-2 bg-red-500 rounded-full transform translate-x-1 -translate-y-1" />
+                <div
+                  className={cn(
+                    "absolute top-0 right-0 w-2 h-2 rounded-full transform translate-x-1 -translate-y-1",
+                    CELL_SEVERITY_STYLES[validation.severity].dot
+                  )}
+                />
               )}
             </div>
           );
@@ -212,9 +326,16 @@ export default function LedesTable({
         size: 150,
         minSize: 100,
         maxSize: 300,
-      })
-    );
-  }, [headers, getCellValidation, onCellUpdate, editingCell, navigateToCell]);
+      });
+    });
+  }, [
+    headers,
+    format,
+    getCellValidation,
+    onCellUpdate,
+    editingCell,
+    handleEditorKeyDown,
+  ]);
 
   const table = useReactTable({
     data,
@@ -253,6 +374,17 @@ export default function LedesTable({
 
   return (
     <div className="space-y-4">
+      {/* UTBMS code suggestions for the code cell editors */}
+      {UTBMS_CODE_KINDS.map((kind) => (
+        <datalist key={kind} id={`utbms-${kind}-codes`}>
+          {Object.entries(allUtbmsCodes(kind)).map(([code, description]) => (
+            <option key={code} value={code}>
+              {description}
+            </option>
+          ))}
+        </datalist>
+      ))}
+
       {/* Search and Controls */}
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-4">
@@ -0,0 +1,143 @@
+import { Briefcase } from "lucide-react";
+import { BillingGuidelinesMap } from "../lib/guidelines";
+import {
+  MATTER_ID_FIELD,
+  MatterSettings,
+  MatterSettingsMap,
+  matterRowCounts,
+} from "../lib/matters";
+import { LedesRow } from "../lib/types";
+import {
+  DEFAULT_CODE_SET,
+  isUtbmsCodeSetId,
+  UTBMS_CODE_SETS,
+} from "../lib/utbms";
+import {
+  getValidationRule,
+  resolveRule,
+  ValidationProfile,
+} from "../lib/validationRules";
+
+interface MatterSettingsPanelProps {
+  rows: LedesRow[];
+  settings: MatterSettingsMap;
+  onSettingsChange: (settings: MatterSettingsMap) => void;
+  profile: ValidationProfile;
+  guidelines: BillingGuidelinesMap;
+}
+
+export default function MatterSettingsPanel({
+  rows,
+  settings,
+  onSettingsChange,
+  profile,
+  guidelines,
+}: MatterSettingsPanelProps) {
+  const matters = matterRowCounts(rows);
+
+  // Matters without a code set fall back to the utbms_code rule's default
+  const codeRule = getValidationRule("utbms_code");
+  const profileCodeSet =
+    codeRule && resolveRule(codeRule, profile).params.code_set;
+  const defaultCodeSet = isUtbmsCodeSetId(profileCodeSet)
+    ? profileCodeSet
+    : DEFAULT_CODE_SET;
+
+  const updateMatter = (matterId: string, matter: MatterSettings) => {
+    onSettingsChange({
+      ...settings,
+      [matterId]: { ...settings[matterId], ...matter },
+    });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Briefcase className="h-5 w-5 text-blue-500" />
+        <h2 className="text-lg font-semibold text-gray-900">Matters</h2>
+      </div>
+
+      {Object.keys(matters).length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No rows have a {MATTER_ID_FIELD}; every line is checked against the{" "}
+          {UTBMS_CODE_SETS[defaultCodeSet].name} code set.
+        </p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">
+                  Matter ID
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">
+                  Rows
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">
+                  UTBMS code set
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">
+                  Billing guidelines
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {Object.entries(matters).map(([matterId, rowCount]) => (
+                <tr key={matterId}>
+                  <td className="px-4 py-2 font-medium text-gray-900">
+                    {matterId}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{rowCount}</td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={settings[matterId]?.codeSet ?? ""}
+                      onChange={(e) =>
+                        updateMatter(matterId, {
+                          codeSet: isUtbmsCodeSetId(e.target.value)
+                            ? e.target.value
+                            : undefined,
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">
+                        Default ({UTBMS_CODE_SETS[defaultCodeSet].name})
+                      </option>
+                      {Object.values(UTBMS_CODE_SETS).map((codeSet) => (
+                        <option key={codeSet.id} value={codeSet.id}>
+                          {codeSet.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={
+                        guidelines[settings[matterId]?.guidelines ?? ""]
+                          ? settings[matterId]?.guidelines
+                          : ""
+                      }
+                      onChange={(e) =>
+                        updateMatter(matterId, {
+                          guidelines: e.target.value || undefined,
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">None</option>
+                      {Object.values(guidelines).map((g) => (
+                        <option key={g.id} value={g.id}>
+                          {g.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
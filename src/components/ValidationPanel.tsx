@@ -3,28 +3,133 @@ import {
   CheckCircle,
   ChevronDown,
   ChevronRight,
+  Info,
+  Wrench,
   XCircle,
 } from "lucide-react";
 import { useState } from "react";
-import { ValidationResult } from "../lib/types";
+import {
+  DatasetValidationError,
+  ParseReport,
+  ValidationError,
+  ValidationFix,
+  ValidationProgress,
+  ValidationResult,
+  ValidationSeverity,
+} from "../lib/types";
 import { cn } from "../lib/utils";
+import {
+  countBySeverity,
+  getValidationRule,
+  VALIDATION_SEVERITIES,
+} from "../lib/validationRules";
+import HighlightedText from "./HighlightedText";
+
+const SEVERITY_STYLES: Record<
+  ValidationSeverity,
+  {
+    label: string;
+    icon: typeof XCircle;
+    card: string;
+    text: string;
+    border: string;
+  }
+> = {
+  error: {
+    label: "Error",
+    icon: XCircle,
+    card: "bg-red-50 border-red-200",
+    text: "text-red-700",
+    border: "border-red-400",
+  },
+  warning: {
+    label: "Warning",
+    icon: AlertTriangle,
+    card: "bg-yellow-50 border-yellow-200",
+    text: "text-yellow-700",
+    border: "border-yellow-400",
+  },
+  info: {
+    label: "Info",
+    icon: Info,
+    card: "bg-blue-50 border-blue-200",
+    text: "text-blue-700",
+    border: "border-blue-400",
+  },
+};
+
+// "line 12", or "invoices-march.txt line 12" for rows from a merged workspace
+function lineLabel(file: string | undefined, line: number): string {
+  return file ? `${file} line ${line}` : `line ${line}`;
+}
+
+// Findings are similar when the same rule reports them on the same field
+function similarityKey(
+  error: ValidationError | DatasetValidationError
+): string {
+  const field = "field" in error ? error.field : error.params?.field ?? "";
+  return `${error.rule}:${field}`;
+}
+
+interface FixActionsProps {
+  fix: ValidationFix;
+  // Fixes of every similar finding, this one included
+  similarFixes: ValidationFix[];
+  onApplyFixes: (fixes: ValidationFix[]) => void;
+}
+
+function FixActions({ fix, similarFixes, onApplyFixes }: FixActionsProps) {
+  return (
+    <div className="flex items-center space-x-2 mt-1">
+      <button
+        onClick={() => onApplyFixes([fix])}
+        className="inline-flex items-center px-2 py-0.5 border border-gray-300 rounded text-xs text-gray-700 bg-white hover:bg-gray-50"
+        title={fix.changes
+          .map((change) => `Row ${change.row} ${change.field}: ${change.value}`)
+          .join("\n")}
+      >
+        <Wrench className="h-3 w-3 mr-1" />
+        {fix.label}
+      </button>
+      {similarFixes.length > 1 && (
+        <button
+          onClick={() => onApplyFixes(similarFixes)}
+          className="px-2 py-0.5 border border-gray-300 rounded text-xs text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Apply to all {similarFixes.length} similar
+        </button>
+      )}
+    </div>
+  );
+}
 
 interface ValidationPanelProps {
   validationResult: ValidationResult;
+  parseReport?: ParseReport;
   isValidating: boolean;
+  validationProgress?: ValidationProgress | null;
   onValidate: () => void;
+  severityFilter: ValidationSeverity[];
+  onSeverityFilterChange: (severities: ValidationSeverity[]) => void;
+  onApplyFixes: (fixes: ValidationFix[]) => void;
 }
 
 export default function ValidationPanel({
   validationResult,
+  parseReport,
   isValidating,
+  validationProgress,
   onValidate,
+  severityFilter,
+  onSeverityFilterChange,
+  onApplyFixes,
 }: ValidationPanelProps) {
   const [expandedSections, setExpandedSections] = useState<
     Record<string, boolean>
   >({
     rowErrors: true,
     datasetErrors: true,
+    parseIssues: true,
   });
 
   const toggleSection = (section: string) => {
@@ -34,11 +139,43 @@ export default function ValidationPanel({
     }));
   };
 
-  const totalErrors =
-    validationResult.row_errors.length + validationResult.dataset_errors.length;
-  const hasErrors = totalErrors > 0;
+  const counts = countBySeverity(validationResult);
+  const totalIssues = counts.error + counts.warning + counts.info;
+  const hasIssues = totalIssues > 0;
+
+  const toggleSeverity = (severity: ValidationSeverity) => {
+    onSeverityFilterChange(
+      severityFilter.includes(severity)
+        ? severityFilter.filter((s) => s !== severity)
+        : VALIDATION_SEVERITIES.filter(
+            (s) => s === severity || severityFilter.includes(s)
+          )
+    );
+  };
+
+  const rowErrors = validationResult.row_errors.filter((error) =>
+    severityFilter.includes(error.severity)
+  );
+  const datasetErrors = validationResult.dataset_errors.filter((error) =>
+    severityFilter.includes(error.severity)
+  );
+
+  // Fixes of the shown findings, by similarity key
+  const similarFixes: Record<string, ValidationFix[]> = {};
+  [...rowErrors, ...datasetErrors].forEach((error) => {
+    if (error.fix) {
+      (similarFixes[similarityKey(error)] ??= []).push(error.fix);
+    }
+  });
+
+  const parseIssueCount = parseReport
+    ? parseReport.field_count_mismatches.length +
+      parseReport.discarded_lines.length +
+      parseReport.duplicate_headers.length +
+      parseReport.undefined_bytes.length
+    : 0;
 
-  const groupedRowErrors = validationResult.row_errors.reduce((acc, error) => {
+  const groupedRowErrors = rowErrors.reduce((acc, error) => {
     const key = error.row || 0;
     if (!acc[key]) {
       acc[key] = [];
@@ -59,7 +196,12 @@ export default function ValidationPanel({
           {isValidating ? (
             <>
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              Validating...
+              Validating
+              {validationProgress
+                ? ` ${Math.floor(
+                    (validationProgress.done / validationProgress.total) * 100
+                  )}%`
+                : "..."}
             </>
           ) : (
             "Validate Data"
@@ -67,18 +209,18 @@ export default function ValidationPanel({
         </button>
       </div>
 
-      {/* Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Summary; each card toggles its severity in the lists below */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div
           className={cn(
             "p-4 rounded-lg border",
-            hasErrors
+            counts.error > 0
               ? "bg-red-50 border-red-200"
               : "bg-green-50 border-green-200"
           )}
         >
           <div className="flex items-center">
-            {hasErrors ? (
+            {counts.error > 0 ? (
               <XCircle className="h-5 w-5 text-red-500 mr-2" />
             ) : (
               <CheckCircle className="h-5 w-5 text-green-500 mr-2" />
@@ -86,46 +228,49 @@ export default function ValidationPanel({
             <span
               className={cn(
                 "text-sm font-medium",
-                hasErrors ? "text-red-800" : "text-green-800"
+                counts.error > 0 ? "text-red-800" : "text-green-800"
               )}
             >
-              {hasErrors
-                ? `${totalErrors} Error${totalErrors !== 1 ? "s" : ""}`
-                : "All Valid"}
+              {counts.error > 0 ? "Not Ready to Submit" : "No Blocking Errors"}
             </span>
           </div>
         </div>
 
-        <div className="p-4 rounded-lg border bg-blue-50 border-blue-200">
-          <div className="flex items-center">
-            <AlertTriangle className="h-5 w-5 text-blue-500 mr-2" />
-            <span className="text-sm font-medium text-blue-800">
-              {validationResult.row_errors.length} Field Error
-              {validationResult.row_errors.length !== 1 ? "s" : ""}
-            </span>
-          </div>
-        </div>
-
-        <div className="p-4 rounded-lg border bg-orange-50 border-orange-200">
-          <div className="flex items-center">
-            <AlertTriangle className="h-5 w-5 text-orange-500 mr-2" />
-            <span className="text-sm font-medium text-orange-800">
-              {validationResult.dataset_errors.length} Dataset Error
-              {validationResult.dataset_errors.length !== 1 ? "s" : ""}
-            </span>
-          </div>
-        </div>
+        {VALIDATION_SEVERITIES.map((severity) => {
+          const style = SEVERITY_STYLES[severity];
+          const Icon = style.icon;
+          const isShown = severityFilter.includes(severity);
+          return (
+            <button
+              key={severity}
+              onClick={() => toggleSeverity(severity)}
+              className={cn(
+                "p-4 rounded-lg border text-left",
+                isShown ? style.card : "bg-gray-50 border-gray-200 opacity-60"
+              )}
+              title={isShown ? "Hide these findings" : "Show these findings"}
+            >
+              <div className="flex items-center">
+                <Icon className={cn("h-5 w-5 mr-2", style.text)} />
+                <span className={cn("text-sm font-medium", style.text)}>
+                  {counts[severity]} {style.label}
+                  {counts[severity] !== 1 && severity !== "info" ? "s" : ""}
+                </span>
+              </div>
+            </button>
+          );
+        })}
       </div>
 
       {/* Row Errors */}
-      {validationResult.row_errors.length > 0 && (
+      {rowErrors.length > 0 && (
         <div className="border border-gray-200 rounded-lg">
           <button
             onClick={() => toggleSection("rowErrors")}
             className="w-full px-4 py-3 text-left bg-gray-50 hover:bg-gray-100 rounded-t-lg flex items-center justify-between"
           >
             <span className="font-medium text-gray-900">
-              Field Validation Errors ({validationResult.row_errors.length})
+              Field Findings ({rowErrors.length})
             </span>
             {expandedSections.rowErrors ? (
               <ChevronDown className="h-5 w-5 text-gray-500" />
@@ -137,14 +282,25 @@ export default function ValidationPanel({
           {expandedSections.rowErrors && (
             <div className="p-4 space-y-4 max-h-96 overflow-y-auto">
               {Object.entries(groupedRowErrors).map(([rowNum, errors]) => (
-                <div key={rowNum} className="border-l-4 border-red-400 pl-4">
-                  <h4 className="font-medium text-red-800 mb-2">
-                    Row {rowNum} ({errors.length} error
+                <div key={rowNum} className="border-l-4 border-gray-300 pl-4">
+                  <h4 className="font-medium text-gray-800 mb-2">
+                    Row {rowNum}
+                    {errors[0].line !== undefined &&
+                      ` (${lineLabel(errors[0].file, errors[0].line)})`}{" "}
+                    ({errors.length} finding
                     {errors.length !== 1 ? "s" : ""})
                   </h4>
                   <div className="space-y-2">
                     {errors.map((error, index) => (
                       <div key={index} className="text-sm">
+                        <span
+                          className={cn(
+                            "text-xs font-medium uppercase mr-1",
+                            SEVERITY_STYLES[error.severity].text
+                          )}
+                        >
+                          {error.severity}
+                        </span>
                         <span className="font-medium text-gray-900">
                           {error.field}
                         </span>
@@ -152,12 +308,30 @@ export default function ValidationPanel({
                           {" "}
                           (Column {error.column}):{" "}
                         </span>
-                        <span className="text-red-600">{error.error}</span>
+                        <span className={SEVERITY_STYLES[error.severity].text}>
+                          {error.error}
+                        </span>
+                        <span className="ml-1 text-xs text-gray-400">
+                          [{error.rule}]
+                        </span>
                         {error.value && (
                           <div className="text-xs text-gray-500 mt-1">
-                            Value: "{error.value}"
+                            Value: "
+                            <HighlightedText
+                              text={error.value}
+                              ranges={error.highlights}
+                              severity={error.severity}
+                            />
+                            "
                           </div>
                         )}
+                        {error.fix && (
+                          <FixActions
+                            fix={error.fix}
+                            similarFixes={similarFixes[similarityKey(error)]}
+                            onApplyFixes={onApplyFixes}
+                          />
+                        )}
                       </div>
                     ))}
                   </div>
@@ -169,15 +343,14 @@ export default function ValidationPanel({
       )}
 
       {/* Dataset Errors */}
-      {validationResult.dataset_errors.length > 0 && (
+      {datasetErrors.length > 0 && (
         <div className="border border-gray-200 rounded-lg">
           <button
             onClick={() => toggleSection("datasetErrors")}
             className="w-full px-4 py-3 text-left bg-gray-50 hover:bg-gray-100 rounded-t-lg flex items-center justify-between"
           >
             <span className="font-medium text-gray-900">
-              Dataset Validation Errors (
-              {validationResult.dataset_errors.length})
+              Dataset Findings ({datasetErrors.length})
             </span>
             {expandedSections.datasetErrors ? (
               <ChevronDown className="h-5 w-5 text-gray-500" />
@@ -188,20 +361,28 @@ export default function ValidationPanel({
 
           {expandedSections.datasetErrors && (
             <div className="p-4 space-y-4 max-h-96 overflow-y-auto">
-              {validationResult.dataset_errors.map((error, index) => (
-                <div key={index} className="border-l-4 border-orange-400 pl-4">
-                  <h4 className="font-medium text-orange-800 mb-2">
-                    {error.type === "invoice_consistency"
-                      ? "Invoice Consistency Error"
-                      : error.type === "invoice_total_calculation"
-                      ? "Invoice Total Calculation Error"
-                      : error.type === "invoice_net_total_calculation"
-                      ? "Invoice Net Total Calculation Error"
-                      : error.type === "line_item_uniqueness"
-                      ? "Line Item Uniqueness Error"
-                      : error.type
-                          .replace(/_/g, " ")
-                          .replace(/\b\w/g, (l) => l.toUpperCase())}
+              {datasetErrors.map((error, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "border-l-4 pl-4",
+                    SEVERITY_STYLES[error.severity].border
+                  )}
+                >
+                  <h4
+                    className={cn(
+                      "font-medium mb-2",
+                      SEVERITY_STYLES[error.severity].text
+                    )}
+                  >
+                    {getValidationRule(error.rule)?.title ??
+                      error.type
+                        .replace(/_/g, " ")
+                        .replace(/\b\w/g, (l) => l.toUpperCase())}{" "}
+                    {SEVERITY_STYLES[error.severity].label}
+                    <span className="ml-1 text-xs font-normal text-gray-400">
+                      [{error.rule}]
+                    </span>
                   </h4>
                   <div className="text-sm space-y-1">
                     <div>
@@ -213,8 +394,12 @@ export default function ValidationPanel({
                       </span>
                     </div>
                     <div>
-                      <span className="font-medium text-gray-900">Error: </span>
-                      <span className="text-orange-600">{error.error}</span>
+                      <span className="font-medium text-gray-900">
+                        {SEVERITY_STYLES[error.severity].label}:{" "}
+                      </span>
+                      <span className={SEVERITY_STYLES[error.severity].text}>
+                        {error.error}
+                      </span>
                     </div>
                     <div>
                       <span className="font-medium text-gray-900">
@@ -224,6 +409,13 @@ export default function ValidationPanel({
                         {error.affected_rows.join(", ")}
                       </span>
                     </div>
+                    {error.fix && (
+                      <FixActions
+                        fix={error.fix}
+                        similarFixes={similarFixes[similarityKey(error)]}
+                        onApplyFixes={onApplyFixes}
+                      />
+                    )}
                   </div>
                 </div>
               ))}
@@ -232,8 +424,98 @@ export default function ValidationPanel({
         </div>
       )}
 
+      {/* Parse Issues */}
+      {parseReport && parseIssueCount > 0 && (
+        <div className="border border-gray-200 rounded-lg">
+          <button
+            onClick={() => toggleSection("parseIssues")}
+            className="w-full px-4 py-3 text-left bg-gray-50 hover:bg-gray-100 rounded-t-lg flex items-center justify-between"
+          >
+            <span className="font-medium text-gray-900">
+              File Parse Issues ({parseIssueCount})
+            </span>
+            {expandedSections.parseIssues ? (
+              <ChevronDown className="h-5 w-5 text-gray-500" />
+            ) : (
+              <ChevronRight className="h-5 w-5 text-gray-500" />
+            )}
+          </button>
+
+          {expandedSections.parseIssues && (
+            <div className="p-4 space-y-4 max-h-96 overflow-y-auto">
+              {parseReport.duplicate_headers.map((duplicate) => (
+                <div
+                  key={`header-${duplicate.file}-${duplicate.field}`}
+                  className="border-l-4 border-yellow-400 pl-4 text-sm"
+                >
+                  <span className="font-medium text-gray-900">
+                    Duplicate header {duplicate.field}
+                  </span>
+                  <span className="text-gray-600">
+                    {" "}
+                    in columns {duplicate.columns.join(", ")}
+                    {duplicate.file && ` of ${duplicate.file}`}
+                  </span>
+                </div>
+              ))}
+              {parseReport.field_count_mismatches.map((mismatch) => (
+                <div
+                  key={`mismatch-${mismatch.file}-${mismatch.line}`}
+                  className="border-l-4 border-yellow-400 pl-4 text-sm"
+                >
+                  <span className="font-medium text-gray-900">
+                    {mismatch.file && `${mismatch.file}: `}Line {mismatch.line}
+                  </span>
+                  <span className="text-gray-600">
+                    {" "}
+                    (row {mismatch.row}): {mismatch.actual} fields, expected{" "}
+                    {mismatch.expected}
+                  </span>
+                </div>
+              ))}
+              {parseReport.undefined_bytes.map((cell) => (
+                <div
+                  key={`bytes-${cell.file}-${cell.row}-${cell.field}`}
+                  className="border-l-4 border-yellow-400 pl-4 text-sm"
+                >
+                  <span className="font-medium text-gray-900">
+                    {cell.file && `${cell.file}: `}Row {cell.row} {cell.field}
+                  </span>
+                  <span className="text-gray-600">
+                    : {cell.bytes.join(", ")}{" "}
+                    {cell.bytes.length !== 1 ? "are" : "is"} undefined in
+                    Windows-1252 and read as an invisible control character
+                  </span>
+                </div>
+              ))}
+              {parseReport.discarded_lines.map((discarded) => (
+                <div
+                  key={`discarded-${discarded.file}-${discarded.line}`}
+                  className="border-l-4 border-gray-400 pl-4 text-sm"
+                >
+                  <span className="font-medium text-gray-900">
+                    {discarded.file && `${discarded.file}: `}Line{" "}
+                    {discarded.line} discarded
+                  </span>
+                  <span className="text-gray-600">: {discarded.reason}</span>
+                  <div className="text-xs text-gray-500 mt-1 truncate">
+                    {discarded.content}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {hasIssues && rowErrors.length + datasetErrors.length === 0 && (
+        <p className="text-center text-sm text-gray-500 py-4">
+          No findings match the selected severities.
+        </p>
+      )}
+
       {/* No Errors */}
-      {!hasErrors && !isValidating && (
+      {!hasIssues && !isValidating && (
         <div className="text-center py-8">
           <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">
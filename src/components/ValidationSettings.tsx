@@ -0,0 +1,329 @@
+import {
+  AlertTriangle,
+  Download,
+  RotateCcw,
+  SlidersHorizontal,
+  Upload,
+} from "lucide-react";
+import { useRef, useState } from "react";
+import { ValidationSeverity } from "../lib/types";
+import { cn, downloadBlob } from "../lib/utils";
+import {
+  DEFAULT_VALIDATION_PROFILE,
+  getValidationRules,
+  parseValidationProfile,
+  resolveRule,
+  RuleParamValue,
+  RuleSettings,
+  VALIDATION_SEVERITIES,
+  ValidationProfile,
+  ValidationRule,
+  ValidationRuleParam,
+  ValidationRuleScope,
+  validationProfileToJson,
+} from "../lib/validationRules";
+
+interface ValidationSettingsProps {
+  profile: ValidationProfile;
+  onProfileChange: (profile: ValidationProfile) => void;
+}
+
+const SCOPE_TITLES: Record<ValidationRuleScope, string> = {
+  field: "Field rules",
+  row: "Cross-field rules",
+  dataset: "Invoice and dataset rules",
+};
+
+// Lists are edited one entry per line, as entries such as regular
+// expressions may contain commas
+function paramInputValue(value: RuleParamValue): string {
+  return Array.isArray(value) ? value.join("\n") : String(value);
+}
+
+function parseParamInput(
+  param: ValidationRuleParam,
+  input: string
+): RuleParamValue {
+  if (param.type === "number") {
+    const value = parseFloat(input);
+    if (isNaN(value)) return param.default;
+    return param.min !== undefined ? Math.max(value, param.min) : value;
+  }
+  if (param.type === "list") {
+    return input
+      .split(/\r?\n/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return input;
+}
+
+export default function ValidationSettings({
+  profile,
+  onProfileChange,
+}: ValidationSettingsProps) {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const rules = getValidationRules();
+
+  const updateRule = (id: string, settings: RuleSettings) => {
+    const current = profile.rules[id] ?? {};
+    onProfileChange({
+      ...profile,
+      rules: {
+        ...profile.rules,
+        [id]: {
+          ...current,
+          ...settings,
+          ...(settings.params
+            ? { params: { ...current.params, ...settings.params } }
+            : {}),
+        },
+      },
+    });
+  };
+
+  const handleExport = () => {
+    const fileName =
+      profile.name.trim().replace(/[^\w-]+/g, "_") || "validation_profile";
+    downloadBlob(
+      validationProfileToJson(profile),
+      `${fileName}.json`,
+      "application/json"
+    );
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onProfileChange(parseValidationProfile(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(
+        err instanceof Error ? err.message : "Failed to import profile"
+      );
+    }
+  };
+
+  const handleReset = () => {
+    if (confirm("Reset every rule to its default settings?")) {
+      onProfileChange(DEFAULT_VALIDATION_PROFILE);
+      setImportError(null);
+    }
+  };
+
+  const renderParam = (rule: ValidationRule, param: ValidationRuleParam) => {
+    const value = resolveRule(rule, profile).params[param.key];
+    const id = `${rule.id}-${param.key}`;
+    const update = (newValue: RuleParamValue) =>
+      updateRule(rule.id, { params: { [param.key]: newValue } });
+
+    return (
+      <div
+        key={param.key}
+        className={cn(
+          "flex space-x-2 text-sm",
+          param.type === "list" ? "items-start" : "items-center"
+        )}
+        title={param.description}
+      >
+        <label htmlFor={id} className="text-gray-600">
+          {param.label}
+        </label>
+        {param.type === "boolean" ? (
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => update(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+        ) : param.type === "choice" ? (
+          <select
+            id={id}
+            value={String(value)}
+            onChange={(e) => update(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(param.options ?? {}).map(([option, label]) => (
+              <option key={option} value={option}>
+                {label}
+              </option>
+            ))}
+          </select>
+        ) : param.type === "list" ? (
+          <textarea
+            // Remount when an import or reset changes the value
+            key={paramInputValue(value)}
+            id={id}
+            defaultValue={paramInputValue(value)}
+            rows={Math.min(Math.max((value as string[]).length, 2), 6)}
+            placeholder="One entry per line"
+            onBlur={(e) => update(parseParamInput(param, e.target.value))}
+            className="w-64 px-2 py-1 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <input
+            // Remount when an import or reset changes the value
+            key={paramInputValue(value)}
+            id={id}
+            type={param.type === "number" ? "number" : "text"}
+            defaultValue={paramInputValue(value)}
+            min={param.min}
+            step={param.step}
+            onBlur={(e) => update(parseParamInput(param, e.target.value))}
+            className={cn(
+              "px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500",
+              param.type === "number" ? "w-24" : "w-64"
+            )}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-2">
+          <SlidersHorizontal className="h-5 w-5 text-blue-500" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            Validation Rules
+          </h2>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleExport}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export profile
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import profile
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+          <button
+            onClick={handleReset}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 text-sm">
+        <label htmlFor="profile-name" className="text-gray-600">
+          Profile name
+        </label>
+        <input
+          id="profile-name"
+          type="text"
+          value={profile.name}
+          onChange={(e) =>
+            onProfileChange({ ...profile, name: e.target.value })
+          }
+          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {importError && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{importError}</span>
+        </div>
+      )}
+
+      {(Object.keys(SCOPE_TITLES) as ValidationRuleScope[]).map((scope) => (
+        <div key={scope}>
+          <h3 className="text-md font-medium text-gray-900 mb-3">
+            {SCOPE_TITLES[scope]}
+          </h3>
+          <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+            {rules
+              .filter((rule) => rule.scope === scope)
+              .map((rule) => {
+                const resolved = resolveRule(rule, profile);
+                return (
+                  <div
+                    key={rule.id}
+                    className={cn(
+                      "p-3 space-y-2",
+                      !resolved.enabled && "bg-gray-50"
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-start space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={resolved.enabled}
+                          onChange={(e) =>
+                            updateRule(rule.id, { enabled: e.target.checked })
+                          }
+                          className="mt-1 rounded border-gray-300"
+                        />
+                        <span>
+                          <span
+                            className={cn(
+                              "text-sm font-medium",
+                              resolved.enabled
+                                ? "text-gray-900"
+                                : "text-gray-500"
+                            )}
+                          >
+                            {rule.title}
+                          </span>
+                          <span className="ml-2 text-xs text-gray-500">
+                            [{rule.id}]
+                          </span>
+                          <span className="block text-sm text-gray-600">
+                            {rule.description}
+                          </span>
+                        </span>
+                      </label>
+                      <select
+                        value={resolved.severity}
+                        disabled={!resolved.enabled}
+                        onChange={(e) =>
+                          updateRule(rule.id, {
+                            severity: e.target.value as ValidationSeverity,
+                          })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      >
+                        {VALIDATION_SEVERITIES.map((severity) => (
+                          <option key={severity} value={severity}>
+                            {severity}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {resolved.enabled && rule.params && (
+                      <div className="pl-7 space-y-2">
+                        {rule.params.map((param) => renderParam(rule, param))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,77 +1,440 @@
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { BackgroundValidator } from "../lib/backgroundValidator";
+import {
+  BillingGuidelinesMap,
+  loadBillingGuidelines,
+  saveBillingGuidelines,
+} from "../lib/guidelines";
+import { renumberLineItems } from "../lib/invoices";
+import { InvoiceSplitter } from "../lib/invoiceSplitter";
+import { LedesConverter } from "../lib/ledesConverter";
+import { LedesExporter } from "../lib/ledesExporter";
 import { LedesFileHandler } from "../lib/ledesFileHandler";
-import { LedesValidator } from "../lib/ledesValidator";
-import { LEDES_HEADERS, LedesData, ValidationResult } from "../lib/types";
+import { LedesMerger } from "../lib/ledesMerger";
+import { LedesXmlHandler } from "../lib/ledesXmlHandler";
+import {
+  loadMatterSettings,
+  MatterSettingsMap,
+  saveMatterSettings,
+} from "../lib/matters";
+import { mergeTextRanges } from "../lib/narrative";
+import { SpreadsheetImporter } from "../lib/spreadsheetImport";
+import {
+  ColumnMapping,
+  ConversionReport,
+  ExportFormat,
+  LEDES_HEADERS,
+  LedesData,
+  LedesExportOptions,
+  LedesFormat,
+  LoadProgress,
+  MergeReport,
+  SpreadsheetTable,
+  TextEncodingName,
+  TextRange,
+  ValidationError,
+  ValidationProgress,
+  ValidationResult,
+} from "../lib/types";
+import {
+  countBySeverity,
+  DEFAULT_VALIDATION_PROFILE,
+  loadValidationProfile,
+  saveValidationProfile,
+  severityRank,
+  ValidationProfile,
+} from "../lib/validationRules";
+import { ValidationConfig } from "../workers/validation.worker";
 
 export function useLedesData() {
   const [data, setData] = useState<LedesData>({
     headers: [...LEDES_HEADERS],
     rows: [],
+    format: "LEDES98BI",
   });
+  const [conversionReport, setConversionReport] =
+    useState<ConversionReport | null>(null);
+  const [mergeReport, setMergeReport] = useState<MergeReport | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationResult>({
     row_errors: [],
     dataset_errors: [],
   });
   const [isValidating, setIsValidating] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const loadAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const validator = useMemo(() => new LedesValidator(), []);
+  const [validationProfile, setValidationProfileState] =
+    useState<ValidationProfile>(DEFAULT_VALIDATION_PROFILE);
+
+  const [matterSettings, setMatterSettingsState] = useState<MatterSettingsMap>(
+    {}
+  );
+
+  const [billingGuidelines, setBillingGuidelinesState] =
+    useState<BillingGuidelinesMap>({});
+
+  // Read after mount so the server render and first client render agree
+  useEffect(() => {
+    setValidationProfileState(loadValidationProfile());
+    setMatterSettingsState(loadMatterSettings());
+    setBillingGuidelinesState(loadBillingGuidelines());
+  }, []);
+
+  const setValidationProfile = useCallback((profile: ValidationProfile) => {
+    setValidationProfileState(profile);
+    saveValidationProfile(profile);
+  }, []);
+
+  const setMatterSettings = useCallback((settings: MatterSettingsMap) => {
+    setMatterSettingsState(settings);
+    saveMatterSettings(settings);
+  }, []);
+
+  const setBillingGuidelines = useCallback(
+    (guidelines: BillingGuidelinesMap) => {
+      setBillingGuidelinesState(guidelines);
+      saveBillingGuidelines(guidelines);
+    },
+    []
+  );
+
+  // Renaming the profile should not trigger revalidation
+  const profileRules = validationProfile.rules;
+  const validationConfig = useMemo<ValidationConfig>(
+    () => ({
+      format: data.format,
+      profile: { name: "", rules: profileRules },
+      matters: matterSettings,
+      guidelines: billingGuidelines,
+    }),
+    [data.format, profileRules, matterSettings, billingGuidelines]
+  );
+
+  // Validation runs in a worker, created on first use
+  const validatorRef = useRef<BackgroundValidator | null>(null);
+  const getValidator = useCallback(
+    () => (validatorRef.current ??= new BackgroundValidator()),
+    []
+  );
+  useEffect(() => () => validatorRef.current?.terminate(), []);
+
+  // Data and configuration last sent to the validator; edits are sent as
+  // changes against it
+  const sentRef = useRef<{
+    data: LedesData;
+    config: ValidationConfig;
+  } | null>(null);
+  // Full validation in flight, which edits cannot be applied on top of
+  const fullRequestRef = useRef<number | null>(null);
+  // Only the newest request's result is shown; older ones are stale
+  const requestRef = useRef(0);
+
+  const [validationProgress, setValidationProgress] =
+    useState<ValidationProgress | null>(null);
+
+  // Shows a result unless a newer request has been sent since
+  const finishValidation = useCallback(
+    (request: number, result: ValidationResult | null) => {
+      if (request !== requestRef.current) return;
+      if (result) setValidationResult(result);
+      setIsValidating(false);
+      setValidationProgress(null);
+    },
+    []
+  );
 
   const validateData = useCallback(async () => {
+    const request = ++requestRef.current;
+    sentRef.current = { data, config: validationConfig };
+    fullRequestRef.current = request;
     setIsValidating(true);
+    setValidationProgress(null);
     try {
       // Convert rows to array format for validation (excluding headers)
       const rowArrays = data.rows.map((row) =>
         data.headers.map((header) => row[header] || "")
       );
 
-      const result = validator.validateDataset(rowArrays, data.headers);
-      setValidationResult(result);
+      const result = await getValidator().validate(
+        rowArrays,
+        data.headers,
+        { parseReport: data.parseReport, sources: data.sources },
+        validationConfig,
+        (progress) => {
+          if (request === requestRef.current) setValidationProgress(progress);
+        }
+      );
+      if (fullRequestRef.current === request) fullRequestRef.current = null;
+      finishValidation(request, result);
     } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        return; // Superseded by a newer validation
+      }
       console.error("Validation error:", err);
+      sentRef.current = null;
       setError("Failed to validate data");
-    } finally {
+      finishValidation(request, null);
+    }
+  }, [data, validationConfig, getValidator, finishValidation]);
+
+  // Revalidate after every change. Cell edits only recheck the edited rows
+  // and their invoices; anything else that changes the rows, columns or
+  // rules validates everything again
+  useEffect(() => {
+    const sent = sentRef.current;
+    if (data.rows.length === 0) {
+      sentRef.current = null;
+      requestRef.current++;
+      validatorRef.current?.cancel();
       setIsValidating(false);
+      setValidationProgress(null);
+      return;
+    }
+    if (sent?.data === data && sent.config === validationConfig) {
+      return;
     }
-  }, [data, validator]);
 
-  const loadFile = useCallback(
-    async (file: File) => {
+    const previous = sent?.data;
+    if (
+      !previous ||
+      sent.config !== validationConfig ||
+      fullRequestRef.current !== null ||
+      previous.headers !== data.headers ||
+      previous.rows.length !== data.rows.length ||
+      previous.sources !== data.sources ||
+      previous.parseReport !== data.parseReport
+    ) {
+      validateData();
+      return;
+    }
+
+    // Edited rows are new objects; untouched ones are shared
+    const changedRows: Record<number, string[]> = {};
+    data.rows.forEach((row, rowIndex) => {
+      if (row !== previous.rows[rowIndex]) {
+        changedRows[rowIndex] = data.headers.map((header) => row[header] || "");
+      }
+    });
+
+    const request = ++requestRef.current;
+    sentRef.current = { data, config: validationConfig };
+    setIsValidating(true);
+    getValidator()
+      .update(changedRows)
+      .then((result) => finishValidation(request, result))
+      .catch((err) => {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        // The worker's copy is out of step; start again from scratch
+        console.error("Validation error:", err);
+        sentRef.current = null;
+        validateData();
+      });
+  }, [data, validationConfig, getValidator, validateData, finishValidation]);
+
+  /**
+   * Loads one or more files. With append, they are merged into the current
+   * workspace; otherwise they replace it. Every row is tagged with its file.
+   * When converting a file to the workspace format would lose data,
+   * confirmDataLoss decides whether the merge goes ahead.
+   */
+  const loadFiles = useCallback(
+    async (
+      files: File[],
+      options: {
+        append?: boolean;
+        encoding?: TextEncodingName;
+        confirmDataLoss?: (report: MergeReport) => boolean;
+      } = {}
+    ): Promise<boolean> => {
+      loadAbortRef.current?.abort();
+      const controller = new AbortController();
+      loadAbortRef.current = controller;
+
       setIsLoading(true);
+      setLoadProgress(null);
       setError(null);
 
       try {
-        const ledesData = await LedesFileHandler.loadFromFile(file);
-        setData(ledesData);
+        const loaded: Array<{ file: string; data: LedesData }> = [];
+        for (let i = 0; i < files.length; i++) {
+          const file = files[i];
+          try {
+            const ledesData = await LedesFileHandler.loadFromFile(file, {
+              onProgress: (progress) =>
+                setLoadProgress({
+                  ...progress,
+                  fileName: file.name,
+                  fileIndex: i,
+                  fileCount: files.length,
+                }),
+              signal: controller.signal,
+              encoding: options.encoding,
+            });
+            loaded.push({
+              file: file.name,
+              data: LedesMerger.tagWithFile(ledesData, file.name),
+            });
+          } catch (err) {
+            // Say which file failed when there are several
+            if (files.length > 1 && err instanceof Error) {
+              err.message = `${file.name}: ${err.message}`;
+            }
+            throw err;
+          }
+        }
 
-        // Validate immediately after loading
-        setTimeout(() => {
-          validateData();
-        }, 100);
+        const base = options.append && data.rows.length > 0 ? data : null;
+        const { data: merged, report } = LedesMerger.merge(base, loaded);
+        const lossy = report.files.some(
+          (file) => (file.rows_with_data_loss?.length ?? 0) > 0
+        );
+        if (lossy && options.confirmDataLoss?.(report) === false) {
+          return false;
+        }
+        setData(merged);
+        setConversionReport(null);
+        setMergeReport(base || loaded.length > 1 ? report : null);
+        return true;
       } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") {
+          return false;
+        }
         console.error("Error loading file:", err);
         const errorMessage =
           err instanceof Error ? err.message : "Failed to load file";
         setError(errorMessage);
+        return false;
+      } finally {
+        if (loadAbortRef.current === controller) {
+          loadAbortRef.current = null;
+          setIsLoading(false);
+          setLoadProgress(null);
+        }
+      }
+    },
+    [data]
+  );
+
+  const loadFile = useCallback(
+    (file: File, encoding?: TextEncodingName) =>
+      loadFiles([file], { encoding }),
+    [loadFiles]
+  );
+
+  // Reads a CSV/Excel file for the column mapping step; nothing is loaded yet
+  const openSpreadsheet = useCallback(
+    async (file: File): Promise<SpreadsheetTable | null> => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        return await SpreadsheetImporter.readFile(file);
+      } catch (err) {
+        console.error("Error reading spreadsheet:", err);
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to read spreadsheet";
+        setError(errorMessage);
+        return null;
       } finally {
         setIsLoading(false);
       }
     },
-    [validateData]
+    []
   );
 
-  const saveFile = useCallback(
-    (filename?: string) => {
+  const importSpreadsheet = useCallback(
+    (
+      table: SpreadsheetTable,
+      mapping: ColumnMapping,
+      format: LedesFormat
+    ): boolean => {
       try {
-        LedesFileHandler.downloadFile(data, filename);
+        const ledesData = LedesMerger.tagWithFile(
+          SpreadsheetImporter.toLedesData(table, mapping, format),
+          table.fileName
+        );
+        setData(ledesData);
+        setConversionReport(null);
+        setMergeReport(null);
+        setError(null);
+        return true;
       } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to import spreadsheet";
+        setError(errorMessage);
+        return false;
+      }
+    },
+    []
+  );
+
+  const cancelLoad = useCallback(() => {
+    loadAbortRef.current?.abort();
+    loadAbortRef.current = null;
+    setIsLoading(false);
+    setLoadProgress(null);
+  }, []);
+
+  const saveFile = useCallback(
+    (
+      format: ExportFormat = "ledes",
+      options: LedesExportOptions = {},
+      filename?: string
+    ) => {
+      const handleError = (err: unknown) => {
         const errorMessage =
           err instanceof Error ? err.message : "Failed to save file";
         setError(errorMessage);
+      };
+
+      try {
+        switch (format) {
+          case "xml":
+            LedesXmlHandler.downloadFile(
+              data,
+              filename,
+              options.xmlVersion,
+              options.encoding
+            );
+            break;
+          case "csv":
+            LedesExporter.downloadCsv(
+              data,
+              validationResult,
+              filename,
+              options
+            );
+            break;
+          case "json":
+            LedesExporter.downloadJson(
+              data,
+              validationResult,
+              filename,
+              options
+            );
+            break;
+          case "xlsx":
+            LedesExporter.downloadXlsx(
+              data,
+              validationResult,
+              filename,
+              options
+            ).catch(handleError);
+            break;
+          case "zip":
+            InvoiceSplitter.downloadZip(data, filename, options).catch(
+              handleError
+            );
+            break;
+          default:
+            LedesFileHandler.downloadFile(data, filename, options);
+        }
+      } catch (err) {
+        handleError(err);
       }
     },
-    [data]
+    [data, validationResult]
   );
 
   const updateCell = useCallback(
@@ -83,33 +446,13 @@ export function useLedesData() {
           [columnId]: value,
         };
 
-        const newData = {
+        return {
           ...prevData,
           rows: newRows,
         };
-
-        // Validate immediately with the new data
-        setTimeout(() => {
-          const rowArrays = newData.rows.map((row) =>
-            newData.headers.map((header) => row[header] || "")
-          );
-          console.log("Validating data after cell update:", {
-            rowIndex,
-            columnId,
-            value,
-          });
-          console.log("Row data being validated:", rowArrays[rowIndex]);
-          const result = validator.validateDataset(rowArrays, newData.headers);
-          console.log("Validation result:", result);
-          console.log("Row errors count:", result.row_errors.length);
-          console.log("Dataset errors count:", result.dataset_errors.length);
-          setValidationResult(result);
-        }, 50);
-
-        return newData;
       });
     },
-    [validator]
+    []
   );
 
   const addRow = useCallback(() => {
@@ -117,6 +460,7 @@ export function useLedesData() {
     setData((prevData) => ({
       ...prevData,
       rows: [...prevData.rows, newRow],
+      sources: prevData.sources && [...prevData.sources, {}],
     }));
   }, [data.headers]);
 
@@ -124,6 +468,7 @@ export function useLedesData() {
     setData((prevData) => ({
       ...prevData,
       rows: prevData.rows.filter((_, index) => index !== rowIndex),
+      sources: prevData.sources?.filter((_, index) => index !== rowIndex),
     }));
   }, []);
 
@@ -133,20 +478,44 @@ export function useLedesData() {
       setData((prevData) => {
         const newRows = [...prevData.rows];
         newRows.splice(atIndex, 0, newRow);
+        const newSources = prevData.sources && [...prevData.sources];
+        newSources?.splice(atIndex, 0, {});
         return {
           ...prevData,
           rows: newRows,
+          sources: newSources,
         };
       });
     },
     [data.headers]
   );
 
+  // Fixes gaps and duplicates without reordering rows
+  const renumberLines = useCallback(() => {
+    setData((prevData) => ({
+      ...prevData,
+      rows: renumberLineItems(prevData.rows, prevData.headers),
+    }));
+  }, []);
+
+  const convertFormat = useCallback(
+    (to: LedesFormat) => {
+      const { data: converted, report } = LedesConverter.convert(data, to);
+      setData(converted);
+      setConversionReport(report);
+      return report;
+    },
+    [data]
+  );
+
   const clearData = useCallback(() => {
     setData({
       headers: [...LEDES_HEADERS],
       rows: [],
+      format: "LEDES98BI",
     });
+    setConversionReport(null);
+    setMergeReport(null);
     setValidationResult({
       row_errors: [],
       dataset_errors: [],
@@ -162,30 +531,46 @@ export function useLedesData() {
     setData({
       headers: [...LEDES_HEADERS],
       rows,
+      format: "LEDES98BI",
     });
   }, []);
 
-  // Get validation errors for a specific cell
+  // Get the most severe finding for a specific cell
   const getCellValidation = useCallback(
-    (rowIndex: number, columnId: string) => {
+    (rowIndex: number, columnId: string): ValidationError | undefined => {
       // Check for row-level field errors first
-      const rowError = validationResult.row_errors.find(
-        (error) => error.row === rowIndex + 1 && error.field === columnId
-      );
+      const cellErrors = validationResult.row_errors
+        .filter(
+          (error) => error.row === rowIndex + 1 && error.field === columnId
+        )
+        .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+      const rowError = cellErrors[0];
 
+      // The cell highlights what every finding on it is about
+      const highlights: TextRange[] = [];
+      cellErrors.forEach((error) =>
+        highlights.push(...(error.highlights ?? []))
+      );
+      if (rowError && highlights.length > 0) {
+        return { ...rowError, highlights: mergeTextRanges(highlights) };
+      }
       if (rowError) return rowError;
 
-      // Check for dataset errors that affect this cell
-      const datasetError = validationResult.dataset_errors.find((error) =>
-        error.affected_rows.includes(rowIndex + 1)
-      );
+      // Check for dataset errors that affect this cell: the field they name,
+      // or else the fields identifying the invoice
+      const datasetError = validationResult.dataset_errors
+        .filter(
+          (error) =>
+            error.affected_rows.includes(rowIndex + 1) &&
+            (error.params?.field !== undefined
+              ? error.params.field === columnId
+              : columnId === "INVOICE_TOTAL" ||
+                columnId === "INVOICE_NUMBER" ||
+                columnId === "INVOICE_DATE")
+        )
+        .sort((a, b) => severityRank(a.severity) - severityRank(b.severity))[0];
 
-      if (
-        datasetError &&
-        (columnId === "INVOICE_TOTAL" ||
-          columnId === "INVOICE_NUMBER" ||
-          columnId === "INVOICE_DATE")
-      ) {
+      if (datasetError) {
         // Return a pseudo row error for dataset errors that affect invoice fields
         return {
           field: columnId,
@@ -193,6 +578,9 @@ export function useLedesData() {
           value: "",
           error: datasetError.error,
           row: rowIndex + 1,
+          rule: datasetError.rule,
+          severity: datasetError.severity,
+          params: datasetError.params,
         };
       }
 
@@ -203,9 +591,8 @@ export function useLedesData() {
 
   // Get validation summary
   const validationSummary = useMemo(() => {
-    const totalErrors =
-      validationResult.row_errors.length +
-      validationResult.dataset_errors.length;
+    const bySeverity = countBySeverity(validationResult);
+    const totalIssues = bySeverity.error + bySeverity.warning + bySeverity.info;
     const fieldsWithErrors = new Set(
       validationResult.row_errors.map((e) => e.field)
     ).size;
@@ -214,35 +601,56 @@ export function useLedesData() {
     ).size;
 
     return {
-      totalErrors,
+      totalIssues,
+      bySeverity,
       fieldsWithErrors,
       rowsWithErrors,
-      hasErrors: totalErrors > 0,
+      // Only errors block a download; warnings and info are advisory
+      hasErrors: bySeverity.error > 0,
+      hasIssues: totalIssues > 0,
     };
   }, [validationResult]);
 
   return {
     // Data
     data,
+    conversionReport,
+    mergeReport,
     validationResult,
     validationSummary,
+    validationProfile,
+    matterSettings,
+    billingGuidelines,
     isValidating,
+    validationProgress,
     isLoading,
+    loadProgress,
     error,
 
     // Actions
     loadFile,
+    loadFiles,
+    openSpreadsheet,
+    importSpreadsheet,
+    cancelLoad,
     saveFile,
     updateCell,
     addRow,
     deleteRow,
     insertRow,
+    renumberLines,
     clearData,
     createEmptyDataset,
+    convertFormat,
     validateData,
     getCellValidation,
+    setValidationProfile,
+    setMatterSettings,
+    setBillingGuidelines,
 
     // Utilities
     setError,
+    setConversionReport,
+    setMergeReport,
   };
 }
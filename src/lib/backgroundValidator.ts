@@ -0,0 +1,143 @@
+import {
+  ValidationConfig,
+  ValidationWorkerRequest,
+  ValidationWorkerResponse,
+} from "../workers/validation.worker";
+import { IncrementalValidator } from "./incrementalValidator";
+import { DatasetContext, LedesValidator } from "./ledesValidator";
+import { ValidationProgress, ValidationResult } from "./types";
+
+interface PendingRequest {
+  resolve: (result: ValidationResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ValidationProgress) => void;
+}
+
+function cancelledError(): DOMException {
+  return new DOMException("Validation cancelled", "AbortError");
+}
+
+/**
+ * Validates in a worker so the table stays responsive. The worker keeps the
+ * incremental validator between requests; a full validation that is
+ * superseded or cancelled rejects with an AbortError. Rules registered at
+ * runtime on the main thread are not known to the worker. Where workers are
+ * unavailable, validation runs inline.
+ */
+export class BackgroundValidator {
+  private worker: Worker | null = null;
+  private inline: IncrementalValidator | null = null;
+  private nextId = 1;
+  private pending: Record<number, PendingRequest> = {};
+
+  validate(
+    dataset: string[][],
+    headers: string[],
+    context: DatasetContext,
+    config: ValidationConfig,
+    onProgress?: (progress: ValidationProgress) => void
+  ): Promise<ValidationResult> {
+    if (typeof Worker === "undefined") {
+      return new Promise((resolve) => {
+        this.inline = new IncrementalValidator(
+          new LedesValidator(
+            config.format,
+            config.profile,
+            config.matters,
+            config.guidelines
+          )
+        );
+        resolve(this.inline.validate(dataset, headers, context));
+      });
+    }
+
+    return this.send(
+      {
+        type: "validate",
+        id: this.nextId++,
+        config,
+        dataset,
+        headers,
+        context,
+      },
+      onProgress
+    );
+  }
+
+  // Rechecks rows edited since the last validate, see IncrementalValidator
+  update(changedRows: Record<number, string[]>): Promise<ValidationResult> {
+    if (typeof Worker === "undefined") {
+      return new Promise((resolve) => {
+        if (!this.inline) {
+          throw new Error("Nothing has been validated yet");
+        }
+        resolve(this.inline.update(changedRows));
+      });
+    }
+
+    return this.send({ type: "update", id: this.nextId++, changedRows });
+  }
+
+  // Stops a running full validation
+  cancel(): void {
+    this.worker?.postMessage({ type: "cancel" } as ValidationWorkerRequest);
+  }
+
+  terminate(): void {
+    this.stopWorker(cancelledError());
+  }
+
+  private stopWorker(error: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    Object.values(this.pending).forEach(({ reject }) => reject(error));
+    this.pending = {};
+  }
+
+  private send(
+    request: Extract<ValidationWorkerRequest, { id: number }>,
+    onProgress?: (progress: ValidationProgress) => void
+  ): Promise<ValidationResult> {
+    const worker = this.worker ?? this.startWorker();
+    return new Promise((resolve, reject) => {
+      this.pending[request.id] = { resolve, reject, onProgress };
+      worker.postMessage(request);
+    });
+  }
+
+  private startWorker(): Worker {
+    const worker = new Worker(
+      new URL("../workers/validation.worker.ts", import.meta.url)
+    );
+
+    worker.onmessage = (event: MessageEvent<ValidationWorkerResponse>) => {
+      const message = event.data;
+      const request = this.pending[message.id];
+      if (!request) return;
+
+      switch (message.type) {
+        case "progress":
+          request.onProgress?.(message.progress);
+          return;
+        case "done":
+          request.resolve(message.result);
+          break;
+        case "cancelled":
+          request.reject(cancelledError());
+          break;
+        case "error":
+          request.reject(new Error(message.error));
+          break;
+      }
+      delete this.pending[message.id];
+    };
+
+    // A crashed worker loses its state; the next validate starts a new one
+    worker.onerror = () => {
+      this.stopWorker(new Error("Validation failed"));
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+}
@@ -0,0 +1,238 @@
+import {
+  EncodingWarning,
+  FileEncoding,
+  LedesData,
+  UndefinedBytes,
+} from "./types";
+
+export const ENCODING_OPTIONS: Array<{
+  id: string;
+  label: string;
+  encoding: FileEncoding;
+}> = [
+  { id: "utf-8", label: "UTF-8", encoding: { name: "utf-8", bom: false } },
+  {
+    id: "utf-8-bom",
+    label: "UTF-8 with BOM",
+    encoding: { name: "utf-8", bom: true },
+  },
+  {
+    id: "windows-1252",
+    label: "Windows-1252 (Western European)",
+    encoding: { name: "windows-1252", bom: false },
+  },
+  {
+    id: "utf-16le",
+    label: "UTF-16 LE",
+    encoding: { name: "utf-16le", bom: true },
+  },
+  {
+    id: "utf-16be",
+    label: "UTF-16 BE",
+    encoding: { name: "utf-16be", bom: true },
+  },
+];
+
+export function encodingLabel(encoding: FileEncoding): string {
+  const option = ENCODING_OPTIONS.find(
+    (o) => o.encoding.name === encoding.name && o.encoding.bom === encoding.bom
+  );
+  return option?.label ?? encoding.name;
+}
+
+export function encodingOptionId(encoding: FileEncoding): string {
+  const option = ENCODING_OPTIONS.find(
+    (o) => o.encoding.name === encoding.name && o.encoding.bom === encoding.bom
+  );
+  return option?.id ?? ENCODING_OPTIONS[0].id;
+}
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F; five of those are unassigned
+const WINDOWS_1252_HIGH: Array<number | null> = [
+  0x20ac,
+  null,
+  0x201a,
+  0x0192,
+  0x201e,
+  0x2026,
+  0x2020,
+  0x2021,
+  0x02c6,
+  0x2030,
+  0x0160,
+  0x2039,
+  0x0152,
+  null,
+  0x017d,
+  null,
+  null,
+  0x2018,
+  0x2019,
+  0x201c,
+  0x201d,
+  0x2022,
+  0x2013,
+  0x2014,
+  0x02dc,
+  0x2122,
+  0x0161,
+  0x203a,
+  0x0153,
+  null,
+  0x017e,
+  0x0178,
+];
+
+const WINDOWS_1252_REVERSE: Record<number, number> = WINDOWS_1252_HIGH.reduce(
+  (acc, codePoint, i) => {
+    if (codePoint !== null) acc[codePoint] = 0x80 + i;
+    return acc;
+  },
+  {} as Record<number, number>
+);
+
+// TextDecoder passes the unassigned bytes through as the C1 controls of the
+// same number, which nothing can display and export writes as "?"
+const UNDEFINED_WINDOWS_1252 = new RegExp(
+  `[${WINDOWS_1252_HIGH.map((codePoint, i) =>
+    codePoint === null ? `\\x${(0x80 + i).toString(16)}` : ""
+  ).join("")}]`,
+  "g"
+);
+
+function windows1252Byte(codePoint: number): number | undefined {
+  if (codePoint < 0x80 || (codePoint >= 0xa0 && codePoint <= 0xff)) {
+    return codePoint;
+  }
+  return WINDOWS_1252_REVERSE[codePoint];
+}
+
+export function canEncode(char: string, encoding: FileEncoding): boolean {
+  if (encoding.name !== "windows-1252") {
+    return true; // Unicode encodings represent everything
+  }
+  return windows1252Byte(char.codePointAt(0) as number) !== undefined;
+}
+
+/**
+ * Detects the encoding from a byte order mark, otherwise by checking whether
+ * the sample is valid UTF-8. Anything that isn't is assumed to be
+ * Windows-1252, which is what most Western European billing systems emit.
+ */
+export function detectEncoding(sample: Uint8Array): FileEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return { name: "utf-8", bom: true };
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return { name: "utf-16le", bom: true };
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return { name: "utf-16be", bom: true };
+  }
+
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return { name: "utf-8", bom: false };
+  } catch {
+    return { name: "windows-1252", bom: false };
+  }
+}
+
+export function decodeBytes(bytes: Uint8Array, encoding: FileEncoding): string {
+  // TextDecoder drops a leading BOM by default
+  return new TextDecoder(encoding.name).decode(bytes);
+}
+
+/**
+ * Encodes text for download. Characters the target encoding cannot represent
+ * are written as "?"; use findEncodingWarnings() to report them beforehand.
+ */
+export function encodeText(text: string, encoding: FileEncoding) {
+  if (encoding.name === "utf-8") {
+    const body = new TextEncoder().encode(text);
+    if (!encoding.bom) return body;
+    const bytes = new Uint8Array(body.length + 3);
+    bytes.set([0xef, 0xbb, 0xbf]);
+    bytes.set(body, 3);
+    return bytes;
+  }
+
+  if (encoding.name === "utf-16le" || encoding.name === "utf-16be") {
+    const littleEndian = encoding.name === "utf-16le";
+    const offset = encoding.bom ? 2 : 0;
+    const bytes = new Uint8Array(offset + text.length * 2);
+    const view = new DataView(bytes.buffer);
+    if (encoding.bom) view.setUint16(0, 0xfeff, littleEndian);
+    for (let i = 0; i < text.length; i++) {
+      view.setUint16(offset + i * 2, text.charCodeAt(i), littleEndian);
+    }
+    return bytes;
+  }
+
+  const bytes: number[] = [];
+  for (const char of Array.from(text)) {
+    const byte = windows1252Byte(char.codePointAt(0) as number);
+    bytes.push(byte === undefined ? 0x3f : byte);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Cells of a file read as Windows-1252 that held bytes the encoding leaves
+ * undefined, so the load can report them rather than keep them unnoticed.
+ */
+export function findUndefinedBytes(data: LedesData): UndefinedBytes[] {
+  const cells: UndefinedBytes[] = [];
+  if (data.encoding?.name !== "windows-1252") {
+    return cells;
+  }
+
+  data.rows.forEach((row, rowIndex) => {
+    data.headers.forEach((field) => {
+      const found = (row[field] || "").match(UNDEFINED_WINDOWS_1252);
+      if (found) {
+        cells.push({
+          row: rowIndex + 1,
+          field,
+          bytes: Array.from(new Set(found)).map(
+            (char) => `0x${char.charCodeAt(0).toString(16).toUpperCase()}`
+          ),
+        });
+      }
+    });
+  });
+
+  return cells;
+}
+
+export function findEncodingWarnings(
+  data: LedesData,
+  encoding: FileEncoding
+): EncodingWarning[] {
+  const warnings: EncodingWarning[] = [];
+  if (encoding.name !== "windows-1252") {
+    return warnings;
+  }
+
+  data.rows.forEach((row, rowIndex) => {
+    data.headers.forEach((field) => {
+      const value = row[field] || "";
+      // Fast path: ASCII always encodes
+      if (!/[^\x00-\x7f]/.test(value)) return;
+
+      const characters = Array.from(value).filter(
+        (char) => !canEncode(char, encoding)
+      );
+      if (characters.length > 0) {
+        warnings.push({
+          row: rowIndex + 1,
+          field,
+          characters: Array.from(new Set(characters)),
+        });
+      }
+    });
+  });
+
+  return warnings;
+}
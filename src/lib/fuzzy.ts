@@ -0,0 +1,66 @@
+// Built at runtime: the es5 target rejects the u flag in regex literals.
+// Marks are kept, as vowel signs and voicing marks are part of many words.
+const NON_WORD = new RegExp("[^\\p{L}\\p{M}\\p{N}]+", "gu");
+
+/**
+ * Upper-case words with punctuation and separators collapsed to single
+ * spaces. Letters of every script count, so only text without any letters or
+ * digits normalizes to "".
+ */
+export function normalizeText(text: string): string {
+  return text.normalize("NFKC").toUpperCase().replace(NON_WORD, " ").trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  // Single-row dynamic programming table
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Dice coefficient over the word sets of two strings, 0 to 1. Insensitive to
+ * word order, so "Hours Billed" and "billed hours" match fully.
+ */
+export function tokenSimilarity(a: string, b: string): number {
+  const tokensA = new Set(normalizeText(a).split(" ").filter(Boolean));
+  const tokensB = new Set(normalizeText(b).split(" ").filter(Boolean));
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Similarity of two strings from 0 (unrelated) to 1 (equal once normalized),
+ * the better of edit-distance and word-overlap scores. Text that normalizes
+ * to nothing, such as "---", is like nothing else.
+ */
+export function similarity(a: string, b: string): number {
+  const normalizedA = normalizeText(a);
+  const normalizedB = normalizeText(b);
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+
+  const maxLength = Math.max(normalizedA.length, normalizedB.length);
+  const editScore = 1 - levenshtein(normalizedA, normalizedB) / maxLength;
+  return Math.max(editScore, tokenSimilarity(a, b));
+}
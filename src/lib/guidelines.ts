@@ -0,0 +1,233 @@
+import { TIMEKEEPER_CLASSIFICATIONS } from "./ledesFields";
+import { MatterSettings } from "./matters";
+import { generateId } from "./utils";
+
+/**
+ * A client's outside counsel billing guidelines, assigned to matters in the
+ * matter settings. Limits left unset are not checked.
+ */
+export interface BillingGuidelines {
+  id: string;
+  name: string;
+  // Highest hourly rate by timekeeper classification (PT, AS, ...)
+  maxRates: Record<string, number>;
+  // Classification by timekeeper ID, for files without a classification column
+  timekeepers: Record<string, string>;
+  // Highest units one timekeeper may bill on one day
+  maxDailyUnits?: number;
+  // Units must be a multiple of this, e.g. 0.1 hours
+  billingIncrement?: number;
+  // UTBMS task and activity codes the client does not pay for
+  disallowedCodes: string[];
+  // UTBMS expense codes the client does not pay for, e.g. E111 meals
+  nonBillableExpenses: string[];
+}
+
+// Keyed by guidelines ID
+export type BillingGuidelinesMap = Record<string, BillingGuidelines>;
+
+// Bumped whenever the guidelines file shape changes incompatibly
+export const BILLING_GUIDELINES_VERSION = 1;
+
+// Guidelines a matter is billed under, null when it has none
+export function matterGuidelines(
+  matter: MatterSettings,
+  guidelines: BillingGuidelinesMap
+): BillingGuidelines | null {
+  return (matter.guidelines && guidelines[matter.guidelines]) || null;
+}
+
+const BILLING_GUIDELINES_KEY = "ledes-editor:billing-guidelines";
+
+export function createBillingGuidelines(name: string): BillingGuidelines {
+  return {
+    id: generateId(),
+    name,
+    maxRates: {},
+    timekeepers: {},
+    disallowedCodes: [],
+    nonBillableExpenses: [],
+  };
+}
+
+export function loadBillingGuidelines(): BillingGuidelinesMap {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = window.localStorage.getItem(BILLING_GUIDELINES_KEY);
+    const parsed = stored
+      ? (JSON.parse(stored) as Record<string, unknown>)
+      : {};
+
+    // Stored as exported documents; drop any that no longer read
+    const guidelines: BillingGuidelinesMap = {};
+    Object.entries(parsed).forEach(([id, document]) => {
+      try {
+        guidelines[id] = readBillingGuidelines(document, id);
+      } catch {
+        // Skipped
+      }
+    });
+    return guidelines;
+  } catch {
+    return {};
+  }
+}
+
+export function saveBillingGuidelines(guidelines: BillingGuidelinesMap): void {
+  const documents: Record<string, object> = {};
+  Object.values(guidelines).forEach((g) => {
+    documents[g.id] = billingGuidelinesDocument(g);
+  });
+  window.localStorage.setItem(
+    BILLING_GUIDELINES_KEY,
+    JSON.stringify(documents)
+  );
+}
+
+// The exported file's shape; the ID is local to this browser and left out
+function billingGuidelinesDocument(guidelines: BillingGuidelines): object {
+  return {
+    guidelines_version: BILLING_GUIDELINES_VERSION,
+    name: guidelines.name,
+    max_rates: guidelines.maxRates,
+    timekeepers: guidelines.timekeepers,
+    ...(guidelines.maxDailyUnits !== undefined
+      ? { max_daily_units: guidelines.maxDailyUnits }
+      : {}),
+    ...(guidelines.billingIncrement !== undefined
+      ? { billing_increment: guidelines.billingIncrement }
+      : {}),
+    disallowed_codes: guidelines.disallowedCodes,
+    non_billable_expenses: guidelines.nonBillableExpenses,
+  };
+}
+
+export function billingGuidelinesToJson(guidelines: BillingGuidelines): string {
+  return JSON.stringify(billingGuidelinesDocument(guidelines), null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function positiveNumber(value: unknown, key: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !(value > 0)) {
+    throw new Error(`Billing guidelines: "${key}" must be a positive number`);
+  }
+  return value;
+}
+
+function codeList(value: unknown, key: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) {
+    throw new Error(`Billing guidelines: "${key}" must be a list of codes`);
+  }
+  return value.map((code: string) => code.trim().toUpperCase()).filter(Boolean);
+}
+
+/**
+ * Reads guidelines written by billingGuidelinesToJson, giving them the ID.
+ * Classifications must be LEDES timekeeper classifications; codes are
+ * uppercased.
+ */
+export function parseBillingGuidelines(
+  text: string,
+  id: string
+): BillingGuidelines {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error("Billing guidelines are not valid JSON");
+  }
+  return readBillingGuidelines(document, id);
+}
+
+function readBillingGuidelines(
+  document: unknown,
+  id: string
+): BillingGuidelines {
+  const {
+    guidelines_version,
+    name,
+    max_rates,
+    timekeepers,
+    max_daily_units,
+    billing_increment,
+    disallowed_codes,
+    non_billable_expenses,
+  } = (document ?? {}) as Record<string, unknown>;
+  if (guidelines_version !== BILLING_GUIDELINES_VERSION) {
+    throw new Error(
+      `Unsupported billing guidelines version: ${String(guidelines_version)}`
+    );
+  }
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error("Billing guidelines have no name");
+  }
+
+  const classification = (value: unknown, where: string): string => {
+    const code = typeof value === "string" ? value.trim().toUpperCase() : "";
+    if (
+      !Object.prototype.hasOwnProperty.call(TIMEKEEPER_CLASSIFICATIONS, code)
+    ) {
+      throw new Error(
+        `Billing guidelines: ${where} must be one of ${Object.keys(
+          TIMEKEEPER_CLASSIFICATIONS
+        ).join(", ")}`
+      );
+    }
+    return code;
+  };
+
+  const maxRates: Record<string, number> = {};
+  if (max_rates !== undefined && !isRecord(max_rates)) {
+    throw new Error(
+      `Billing guidelines: "max_rates" must map classifications to rates`
+    );
+  }
+  Object.entries((max_rates ?? {}) as Record<string, unknown>).forEach(
+    ([key, rate]) => {
+      maxRates[classification(key, `max_rates key ${key}`)] = positiveNumber(
+        rate,
+        `max_rates.${key}`
+      ) as number;
+    }
+  );
+
+  const roster: Record<string, string> = {};
+  if (timekeepers !== undefined && !isRecord(timekeepers)) {
+    throw new Error(
+      `Billing guidelines: "timekeepers" must map timekeeper IDs to classifications`
+    );
+  }
+  Object.entries((timekeepers ?? {}) as Record<string, unknown>).forEach(
+    ([timekeeper, value]) => {
+      roster[timekeeper.trim()] = classification(
+        value,
+        `classification of timekeeper ${timekeeper}`
+      );
+    }
+  );
+
+  const maxDailyUnits = positiveNumber(max_daily_units, "max_daily_units");
+  const billingIncrement = positiveNumber(
+    billing_increment,
+    "billing_increment"
+  );
+
+  return {
+    id,
+    name: name.trim(),
+    maxRates,
+    timekeepers: roster,
+    ...(maxDailyUnits !== undefined ? { maxDailyUnits } : {}),
+    ...(billingIncrement !== undefined ? { billingIncrement } : {}),
+    disallowedCodes: codeList(disallowed_codes, "disallowed_codes"),
+    nonBillableExpenses: codeList(
+      non_billable_expenses,
+      "non_billable_expenses"
+    ),
+  };
+}
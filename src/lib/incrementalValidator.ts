@@ -0,0 +1,359 @@
+import { groupInvoiceLines, InvoiceGroup, invoiceKey } from "./invoices";
+import { DatasetContext, LedesValidator } from "./ledesValidator";
+import {
+  DatasetValidationError,
+  ValidationError,
+  ValidationProgress,
+  ValidationResult,
+} from "./types";
+
+// Rows and findings by group of a grouped dataset rule, see DatasetRule.groupOf
+interface RuleGroups {
+  // Group of each row, "" for rows the rule ignores
+  rowGroups: string[];
+  // Rows of each group, ascending
+  rows: Record<string, number[]>;
+  findings: Record<string, DatasetValidationError[]>;
+}
+
+interface ValidationState {
+  dataset: string[][];
+  headers: string[];
+  context: DatasetContext;
+  invoices: InvoiceGroup[];
+  // Invoice key of each row
+  rowInvoices: string[];
+  rowFindings: ValidationError[][];
+  // Findings per dataset rule, in rule order
+  invoiceFindings: Record<string, DatasetValidationError[][]>;
+  acrossInvoiceFindings: DatasetValidationError[][];
+  // Per dataset rule, null for rules that are not grouped
+  ruleGroups: (RuleGroups | null)[];
+}
+
+export interface ChunkedValidationOptions {
+  // Steps (rows, then invoices) between pauses
+  chunkSize?: number;
+  onProgress?: (progress: ValidationProgress) => void;
+  // Asked at every pause; true abandons the run
+  shouldStop?: () => boolean;
+}
+
+// Lets queued messages and events run between chunks
+function pause(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function createRuleGroups(
+  rowGroups: string[],
+  findings: DatasetValidationError[]
+): RuleGroups {
+  const groups: RuleGroups = { rowGroups, rows: {}, findings: {} };
+  rowGroups.forEach((group, rowIndex) => {
+    if (group) (groups.rows[group] ??= []).push(rowIndex);
+  });
+  addGroupFindings(groups, findings);
+  return groups;
+}
+
+// Files each finding under the group of its first affected row
+function addGroupFindings(
+  groups: RuleGroups,
+  findings: DatasetValidationError[]
+) {
+  findings.forEach((finding) => {
+    const group = groups.rowGroups[finding.affected_rows[0] - 1];
+    (groups.findings[group] ??= []).push(finding);
+  });
+}
+
+// Moves a row to another group, keeping each group's rows in order
+function moveToGroup(groups: RuleGroups, rowIndex: number, group: string) {
+  const previous = groups.rowGroups[rowIndex];
+  if (previous === group) return;
+
+  if (previous) {
+    const rows = groups.rows[previous];
+    rows.splice(rows.indexOf(rowIndex), 1);
+    if (rows.length === 0) delete groups.rows[previous];
+  }
+  if (group) {
+    const rows = (groups.rows[group] ??= []);
+    const position = rows.findIndex((row) => row > rowIndex);
+    rows.splice(position === -1 ? rows.length : position, 0, rowIndex);
+  }
+  groups.rowGroups[rowIndex] = group;
+}
+
+// In the order of each group's first row, as a check over every row gives them
+function groupedFindings(groups: RuleGroups): DatasetValidationError[] {
+  const findings: DatasetValidationError[] = [];
+  Object.keys(groups.findings)
+    .sort((a, b) => groups.rows[a][0] - groups.rows[b][0])
+    .forEach((group) => {
+      groups.findings[group].forEach((finding) => findings.push(finding));
+    });
+  return findings;
+}
+
+/**
+ * Keeps the findings of the last validation per row and per invoice, so that
+ * after a cell edit only the edited rows and the invoices they belong to are
+ * checked again. Dataset rules that look across invoices, such as the same
+ * invoice in several files, still run over every row, except grouped rules
+ * such as duplicate time entries, which only recheck the groups of the
+ * edited rows.
+ */
+export class IncrementalValidator {
+  // Last completed validation
+  private state: ValidationState | null = null;
+
+  constructor(private validator: LedesValidator) {}
+
+  validate(
+    dataset: string[][],
+    headers: string[],
+    context: DatasetContext = {}
+  ): ValidationResult {
+    const state = this.createState(dataset, headers, context);
+    this.steps(state).forEach((step) => step());
+    this.state = state;
+    return this.result(state);
+  }
+
+  /**
+   * Like validate, but pauses between chunks so that a worker can take
+   * messages meanwhile. Resolves to null when stopped; the last completed
+   * validation is then kept for update.
+   */
+  async validateInChunks(
+    dataset: string[][],
+    headers: string[],
+    context: DatasetContext = {},
+    { chunkSize = 500, onProgress, shouldStop }: ChunkedValidationOptions = {}
+  ): Promise<ValidationResult | null> {
+    const state = this.createState(dataset, headers, context);
+    const steps = this.steps(state);
+
+    for (let done = 0; done < steps.length; ) {
+      steps.slice(done, done + chunkSize).forEach((step) => step());
+      done = Math.min(done + chunkSize, steps.length);
+      onProgress?.({ done, total: steps.length });
+
+      await pause();
+      if (shouldStop?.()) return null;
+    }
+
+    this.state = state;
+    return this.result(state);
+  }
+
+  /**
+   * Rechecks rows edited in place, given by index with their new values.
+   * Rows keep their positions; after rows are added, removed or reordered,
+   * call validate instead.
+   */
+  update(changedRows: Record<number, string[]>): ValidationResult {
+    const state = this.state;
+    if (!state) {
+      throw new Error("Nothing has been validated yet");
+    }
+
+    const rowIndexes = Object.keys(changedRows).map(Number);
+    if (rowIndexes.length === 0) {
+      return this.result(state);
+    }
+
+    // An edited identifier moves a row to another invoice; check both
+    const touched = new Set<string>();
+    let regroup = false;
+    rowIndexes.forEach((rowIndex) => {
+      touched.add(state.rowInvoices[rowIndex]);
+      regroup ||=
+        invoiceKey(changedRows[rowIndex], state.headers) !==
+        state.rowInvoices[rowIndex];
+      state.dataset[rowIndex] = changedRows[rowIndex];
+      state.rowFindings[rowIndex] = this.checkRow(state, rowIndex);
+    });
+
+    // Grouping is the slowest step on large files, so only regroup when needed
+    if (regroup) {
+      this.groupRows(state);
+      rowIndexes.forEach((rowIndex) =>
+        touched.add(state.rowInvoices[rowIndex])
+      );
+    }
+
+    const invoicesByKey: Record<string, InvoiceGroup> = {};
+    state.invoices.forEach((invoice) => {
+      invoicesByKey[invoice.key] = invoice;
+    });
+    touched.forEach((key) => {
+      if (invoicesByKey[key]) {
+        this.checkInvoice(state, invoicesByKey[key]);
+      } else {
+        delete state.invoiceFindings[key]; // Its last row moved away
+      }
+    });
+
+    this.checkAcrossInvoices(state, rowIndexes);
+    return this.result(state);
+  }
+
+  private createState(
+    dataset: string[][],
+    headers: string[],
+    context: DatasetContext
+  ): ValidationState {
+    const state: ValidationState = {
+      dataset: [...dataset],
+      headers,
+      context,
+      invoices: [],
+      rowInvoices: [],
+      rowFindings: [],
+      invoiceFindings: {},
+      acrossInvoiceFindings: [],
+      ruleGroups: [],
+    };
+    this.groupRows(state);
+    return state;
+  }
+
+  // A full validation: every row, every invoice, then the rest
+  private steps(state: ValidationState): (() => void)[] {
+    return [
+      ...state.dataset.map((_, rowIndex) => () => {
+        state.rowFindings[rowIndex] = this.checkRow(state, rowIndex);
+      }),
+      ...state.invoices.map(
+        (invoice) => () => this.checkInvoice(state, invoice)
+      ),
+      () => this.checkAcrossInvoices(state),
+    ];
+  }
+
+  private groupRows(state: ValidationState) {
+    state.invoices = groupInvoiceLines(state.dataset, state.headers);
+    state.rowInvoices = [];
+    state.invoices.forEach((invoice) => {
+      invoice.rowIndexes.forEach((rowIndex) => {
+        state.rowInvoices[rowIndex] = invoice.key;
+      });
+    });
+  }
+
+  private checkRow(state: ValidationState, rowIndex: number) {
+    return this.validator.validateDatasetRow(
+      state.dataset[rowIndex],
+      state.headers,
+      rowIndex,
+      state.context.sources
+    );
+  }
+
+  private checkInvoice(state: ValidationState, invoice: InvoiceGroup) {
+    state.invoiceFindings[invoice.key] = this.validator.validateDatasetRules(
+      state.dataset,
+      state.headers,
+      state.context,
+      [invoice],
+      false
+    );
+  }
+
+  // After an edit, grouped rules only recheck the groups the edited rows
+  // left or joined
+  private checkAcrossInvoices(state: ValidationState, changedRows?: number[]) {
+    const { dataset, headers, context } = state;
+    const findings = this.validator.validateDatasetRules(
+      dataset,
+      headers,
+      context,
+      [],
+      true,
+      changedRows !== undefined
+    );
+
+    if (!changedRows) {
+      state.acrossInvoiceFindings = findings;
+      state.ruleGroups = this.validator
+        .datasetRuleGroups(
+          dataset,
+          headers,
+          context,
+          dataset.map((_, rowIndex) => rowIndex)
+        )
+        .map(
+          (rowGroups, ruleIndex) =>
+            rowGroups && createRuleGroups(rowGroups, findings[ruleIndex])
+        );
+      return;
+    }
+
+    const changedGroups = this.validator.datasetRuleGroups(
+      dataset,
+      headers,
+      context,
+      changedRows
+    );
+    findings.forEach((errors, ruleIndex) => {
+      const groups = state.ruleGroups[ruleIndex];
+      const newGroups = changedGroups[ruleIndex];
+      if (!groups || !newGroups) {
+        state.acrossInvoiceFindings[ruleIndex] = errors;
+        return;
+      }
+
+      const touched = new Set<string>();
+      changedRows.forEach((rowIndex, i) => {
+        touched.add(groups.rowGroups[rowIndex]);
+        touched.add(newGroups[i]);
+        moveToGroup(groups, rowIndex, newGroups[i]);
+      });
+      touched.delete("");
+
+      const rows: number[] = [];
+      touched.forEach((group) => {
+        delete groups.findings[group];
+        groups.rows[group]?.forEach((rowIndex) => rows.push(rowIndex));
+      });
+      if (rows.length > 0) {
+        addGroupFindings(
+          groups,
+          this.validator.validateRuleGroups(
+            ruleIndex,
+            dataset,
+            headers,
+            context,
+            rows.sort((a, b) => a - b)
+          )
+        );
+      }
+      state.acrossInvoiceFindings[ruleIndex] = groupedFindings(groups);
+    });
+  }
+
+  // Same order as a full validateDataset: rule by rule, then invoice order
+  private result(state: ValidationState): ValidationResult {
+    // Appended one by one; spreading a large list into push() overflows the
+    // call stack
+    const rowErrors: ValidationError[] = [];
+    state.rowFindings.forEach((errors) => {
+      errors.forEach((error) => rowErrors.push(error));
+    });
+
+    const datasetErrors: DatasetValidationError[] = [];
+    const add = (errors: DatasetValidationError[]) => {
+      errors.forEach((error) => datasetErrors.push(error));
+    };
+    state.acrossInvoiceFindings.forEach((errors, ruleIndex) => {
+      add(errors);
+      state.invoices.forEach((invoice) => {
+        add(state.invoiceFindings[invoice.key][ruleIndex]);
+      });
+    });
+
+    return { row_errors: rowErrors, dataset_errors: datasetErrors };
+  }
+}
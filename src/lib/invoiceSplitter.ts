@@ -0,0 +1,171 @@
+import type JSZip from "jszip";
+import { encodeText } from "./encoding";
+import { groupInvoiceLines, InvoiceGroup } from "./invoices";
+import { formatCsv } from "./ledesExporter";
+import { LedesFileHandler } from "./ledesFileHandler";
+import { currencyDecimals, formatMinorUnits, parseMoney } from "./money";
+import { InvoiceManifestEntry, LedesData, LedesExportOptions } from "./types";
+import { downloadBlob } from "./utils";
+
+const MANIFEST_COLUMNS: Array<keyof InvoiceManifestEntry> = [
+  "file",
+  "invoice_number",
+  "invoice_date",
+  "law_firm_name",
+  "client_name",
+  "line_count",
+  "invoice_total",
+  "invoice_net_total",
+  "invoice_tax_total",
+  "invoice_currency",
+  "line_items_total",
+];
+
+export interface SplitInvoice {
+  filename: string;
+  invoice: InvoiceGroup;
+  data: LedesData;
+}
+
+function safeFilename(text: string): string {
+  return text.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Splits a multi-invoice dataset into one dataset per invoice, grouping rows
+ * the same way the validator does, and bundles them as a zip of LEDES files.
+ */
+export class InvoiceSplitter {
+  static split(data: LedesData): SplitInvoice[] {
+    const dataset = data.rows.map((row) =>
+      data.headers.map((header) => row[header] || "")
+    );
+    const invoices = groupInvoiceLines(dataset, data.headers);
+    const { sources } = data;
+
+    const used = new Set<string>();
+    return invoices.map((invoice, i) => {
+      const number = invoice.identifiers.INVOICE_NUMBER || "";
+      const date = invoice.identifiers.INVOICE_DATE || "";
+      const base =
+        safeFilename(
+          [number || `invoice_${i + 1}`, date].filter(Boolean).join("_")
+        ) || `invoice_${i + 1}`;
+
+      // Same number and date under different firms or clients
+      let filename = `${base}.txt`;
+      for (let n = 2; used.has(filename); n++) {
+        filename = `${base}_${n}.txt`;
+      }
+      used.add(filename);
+
+      return {
+        filename,
+        invoice,
+        data: {
+          ...data,
+          rows: invoice.rowIndexes.map((rowIndex) => data.rows[rowIndex]),
+          sources:
+            sources &&
+            invoice.rowIndexes.map((rowIndex) => sources[rowIndex] ?? {}),
+          // Parse issues refer to the source file, not to the split ones
+          parseReport: undefined,
+        },
+      };
+    });
+  }
+
+  static manifest(invoices: SplitInvoice[]): InvoiceManifestEntry[] {
+    return invoices.map(({ filename, data }) => {
+      const first = data.rows[0] ?? {};
+      const decimals = currencyDecimals(first.INVOICE_CURRENCY);
+      const lineItemsTotal = data.rows.reduce((sum, row) => {
+        const value = parseMoney(row.LINE_ITEM_TOTAL || "", {
+          decimals,
+          rounding: "half_up",
+        });
+        return value === null ? sum : sum + value;
+      }, 0);
+
+      return {
+        file: filename,
+        invoice_number: first.INVOICE_NUMBER || "",
+        invoice_date: first.INVOICE_DATE || "",
+        law_firm_name: first.LAW_FIRM_NAME || "",
+        client_name: first.CLIENT_NAME || "",
+        line_count: data.rows.length,
+        invoice_total: first.INVOICE_TOTAL || "",
+        invoice_net_total: first.INVOICE_NET_TOTAL || "",
+        invoice_tax_total: first.INVOICE_TAX_TOTAL || "",
+        invoice_currency: first.INVOICE_CURRENCY || "",
+        line_items_total: formatMinorUnits(lineItemsTotal, decimals),
+      };
+    });
+  }
+
+  /**
+   * Builds a zip with one LEDES file per invoice and a manifest in both JSON
+   * and CSV form.
+   */
+  static async toZip(
+    data: LedesData,
+    options: LedesExportOptions = {}
+  ): Promise<JSZip> {
+    const { default: JSZipClass } = await import("jszip");
+    const zip = new JSZipClass();
+    const encoding = options.encoding ??
+      data.encoding ?? { name: "utf-8", bom: false };
+
+    const invoices = this.split(data);
+    invoices.forEach(({ filename, data: invoiceData }) => {
+      zip.file(
+        filename,
+        encodeText(
+          LedesFileHandler.formatForDownload(invoiceData, options),
+          encoding
+        )
+      );
+    });
+
+    const manifest = this.manifest(invoices);
+    zip.file(
+      "manifest.json",
+      JSON.stringify(
+        {
+          format: data.format,
+          invoice_count: manifest.length,
+          invoices: manifest,
+        },
+        null,
+        2
+      )
+    );
+    zip.file(
+      "manifest.csv",
+      formatCsv(
+        [
+          MANIFEST_COLUMNS,
+          ...manifest.map((entry) =>
+            MANIFEST_COLUMNS.map((column) => String(entry[column]))
+          ),
+        ],
+        options.escapeFormulas !== false
+      )
+    );
+
+    return zip;
+  }
+
+  static async downloadZip(
+    data: LedesData,
+    filename: string = "ledes_invoices.zip",
+    options: LedesExportOptions = {}
+  ): Promise<void> {
+    const zip = await this.toZip(data, options);
+    downloadBlob(
+      await zip.generateAsync({ type: "blob" }),
+      filename,
+      "application/zip"
+    );
+  }
+}
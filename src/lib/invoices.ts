@@ -0,0 +1,122 @@
+import { LedesRow } from "./types";
+
+// Fields that together identify an invoice; whichever are present are used
+export const INVOICE_IDENTIFIER_FIELDS = [
+  "INVOICE_DATE",
+  "LAW_FIRM_NAME",
+  "CLIENT_NAME",
+  "INVOICE_NUMBER",
+];
+
+export interface InvoiceGroup {
+  key: string;
+  // "FIELD=value, ..." for the identifier fields that have a value
+  identifier: string;
+  identifiers: Record<string, string>;
+  // 0-based, in dataset order
+  rowIndexes: number[];
+}
+
+/**
+ * Groups dataset rows into invoices by their identifier fields, in order of
+ * first appearance. Returns no groups when the headers carry none of the
+ * identifier fields.
+ */
+export function groupInvoices(
+  dataset: string[][],
+  headers: string[]
+): InvoiceGroup[] {
+  const availableIdentifiers = INVOICE_IDENTIFIER_FIELDS.filter((field) =>
+    headers.includes(field)
+  );
+
+  if (availableIdentifiers.length === 0) {
+    return [];
+  }
+
+  const indexes = availableIdentifiers.map((field) => headers.indexOf(field));
+  const invoices: Record<string, InvoiceGroup> = {};
+  const order: string[] = [];
+
+  dataset.forEach((rowData, rowIndex) => {
+    const values = indexes.map((index) => rowData[index] || "");
+    const key = values.join("|");
+
+    if (!invoices[key]) {
+      const identifiers: Record<string, string> = {};
+      availableIdentifiers.forEach((field, i) => {
+        identifiers[field] = values[i];
+      });
+
+      invoices[key] = {
+        key,
+        identifier: availableIdentifiers
+          .map((field, i) => `${field}=${values[i]}`)
+          .filter((part) => !part.endsWith("="))
+          .join(", "),
+        identifiers,
+        rowIndexes: [],
+      };
+      order.push(key);
+    }
+
+    invoices[key].rowIndexes.push(rowIndex);
+  });
+
+  return order.map((key) => invoices[key]);
+}
+
+// Key of the invoice a row belongs to, matching InvoiceGroup.key
+export function invoiceKey(rowData: string[], headers: string[]): string {
+  return INVOICE_IDENTIFIER_FIELDS.filter((field) => headers.includes(field))
+    .map((field) => rowData[headers.indexOf(field)] || "")
+    .join("|");
+}
+
+// Like groupInvoices, but a dataset without identifier fields is one invoice
+export function groupInvoiceLines(
+  dataset: string[][],
+  headers: string[]
+): InvoiceGroup[] {
+  const invoices = groupInvoices(dataset, headers);
+  if (invoices.length > 0 || dataset.length === 0) {
+    return invoices;
+  }
+
+  return [
+    {
+      key: "",
+      identifier: "",
+      identifiers: {},
+      rowIndexes: dataset.map((_, rowIndex) => rowIndex),
+    },
+  ];
+}
+
+/**
+ * Numbers each invoice's lines 1, 2, 3... in their current row order. Rows
+ * whose number is already right are returned unchanged.
+ */
+export function renumberLineItems(
+  rows: LedesRow[],
+  headers: string[]
+): LedesRow[] {
+  if (!headers.includes("LINE_ITEM_NUMBER")) {
+    return rows;
+  }
+
+  const dataset = rows.map((row) => headers.map((header) => row[header] || ""));
+  const renumbered = [...rows];
+  groupInvoiceLines(dataset, headers).forEach((invoice) => {
+    invoice.rowIndexes.forEach((rowIndex, position) => {
+      const lineNumber = String(position + 1);
+      if (rows[rowIndex].LINE_ITEM_NUMBER !== lineNumber) {
+        renumbered[rowIndex] = {
+          ...rows[rowIndex],
+          LINE_ITEM_NUMBER: lineNumber,
+        };
+      }
+    });
+  });
+  return renumbered;
+}
@@ -0,0 +1,142 @@
+import {
+  ConversionReport,
+  LEDES_FORMAT_HEADERS,
+  LedesData,
+  LedesFormat,
+  LedesRow,
+} from "./types";
+
+// 1998B field -> 98BI field. Fields missing here have no 98BI counterpart.
+const FIELD_MAP_1998B_TO_98BI: Record<string, string> = {
+  INVOICE_DATE: "INVOICE_DATE",
+  INVOICE_NUMBER: "INVOICE_NUMBER",
+  CLIENT_ID: "CLIENT_REGISTRATION_ID",
+  LAW_FIRM_MATTER_ID: "LAW_FIRM_MATTER_ID",
+  INVOICE_TOTAL: "INVOICE_TOTAL",
+  BILLING_START_DATE: "BILLING_START_DATE",
+  BILLING_END_DATE: "BILLING_END_DATE",
+  INVOICE_DESCRIPTION: "INVOICE_DESCRIPTION",
+  LINE_ITEM_NUMBER: "LINE_ITEM_NUMBER",
+  "EXP/FEE/INV_ADJ_TYPE": "LINE_ITEM_TYPE",
+  LINE_ITEM_NUMBER_OF_UNITS: "LINE_ITEM_NUMBER_OF_UNITS",
+  LINE_ITEM_ADJUSTMENT_AMOUNT: "LINE_ITEM_ADJUSTMENT_AMOUNT",
+  LINE_ITEM_TOTAL: "LINE_ITEM_TOTAL",
+  LINE_ITEM_DATE: "LINE_ITEM_DATE",
+  LINE_ITEM_TASK_CODE: "LINE_ITEM_TASK_CODE",
+  LINE_ITEM_EXPENSE_CODE: "LINE_ITEM_EXPENSE_TYPE",
+  LINE_ITEM_ACTIVITY_CODE: "LINE_ITEM_ACTIVITY_CODE",
+  TIMEKEEPER_ID: "LINE_ITEM_LAWYER_ID",
+  LINE_ITEM_DESCRIPTION: "LINE_ITEM_DESCRIPTION",
+  LAW_FIRM_ID: "LAW_FIRM_REGISTRATION_ID",
+  LINE_ITEM_UNIT_COST: "LINE_ITEM_UNIT_COST",
+  CLIENT_MATTER_ID: "CLIENT_MATTER_ID",
+};
+
+// 98BI fields that 1998B cannot express but that can be derived safely.
+// 1998B invoices are untaxed and implicitly in US dollars.
+const DEFAULTS_FOR_98BI: Record<
+  string,
+  { value: (row: LedesRow) => string; description: string }
+> = {
+  INVOICE_CURRENCY: { value: () => "USD", description: "USD" },
+  INVOICE_TAX_TOTAL: { value: () => "0", description: "0" },
+  INVOICE_NET_TOTAL: {
+    value: (row) => row["INVOICE_TOTAL"] || "",
+    description: "copied from INVOICE_TOTAL",
+  },
+  LINE_ITEM_TAX_TOTAL: { value: () => "0", description: "0" },
+};
+
+export class LedesConverter {
+  static convert(
+    data: LedesData,
+    to: LedesFormat
+  ): { data: LedesData; report: ConversionReport } {
+    const from = data.format;
+    const targetHeaders = [...LEDES_FORMAT_HEADERS[to]];
+
+    if (from === to) {
+      return {
+        data,
+        report: {
+          from,
+          to,
+          dropped_fields: [],
+          defaulted_fields: [],
+          rows_with_data_loss: [],
+        },
+      };
+    }
+
+    // Source field -> target field, always oriented from -> to
+    const fieldMap: Record<string, string> =
+      from === "LEDES1998B"
+        ? FIELD_MAP_1998B_TO_98BI
+        : Object.keys(FIELD_MAP_1998B_TO_98BI).reduce((acc, field) => {
+            acc[FIELD_MAP_1998B_TO_98BI[field]] = field;
+            return acc;
+          }, {} as Record<string, string>);
+    const defaults: typeof DEFAULTS_FOR_98BI =
+      to === "LEDES98BI" ? DEFAULTS_FOR_98BI : {};
+
+    const droppedFields = data.headers.filter((header) => !fieldMap[header]);
+    const mappedTargets = new Set(
+      data.headers.map((header) => fieldMap[header]).filter(Boolean)
+    );
+    const defaultedFields = targetHeaders.filter(
+      (header) => !mappedTargets.has(header) && header in defaults
+    );
+
+    const rowsWithDataLoss: number[] = [];
+
+    const rows = data.rows.map((sourceRow, rowIndex) => {
+      const row: LedesRow = {};
+      targetHeaders.forEach((header) => {
+        row[header] = "";
+      });
+
+      data.headers.forEach((header) => {
+        const target = fieldMap[header];
+        if (target) {
+          row[target] = sourceRow[header] || "";
+        }
+      });
+
+      defaultedFields.forEach((header) => {
+        row[header] = defaults[header].value(sourceRow);
+      });
+
+      if (
+        droppedFields.some(
+          (header) => sourceRow[header] && sourceRow[header].trim() !== ""
+        )
+      ) {
+        rowsWithDataLoss.push(rowIndex + 1);
+      }
+
+      return row;
+    });
+
+    return {
+      // The source version line does not apply to the target format
+      data: {
+        headers: targetHeaders,
+        rows,
+        format: to,
+        preamble: data.preamble,
+        sources: data.sources,
+        parseReport: data.parseReport,
+      },
+      report: {
+        from,
+        to,
+        dropped_fields: droppedFields,
+        defaulted_fields: defaultedFields.map((field) => ({
+          field,
+          value: defaults[field].description,
+        })),
+        rows_with_data_loss: rowsWithDataLoss,
+      },
+    };
+  }
+}
@@ -0,0 +1,367 @@
+import { encodeText } from "./encoding";
+import { LEDES_DATE_FIELDS, LEDES_NUMERIC_FIELDS } from "./ledesFields";
+import { DEFAULT_VERSIONS } from "./ledesParser";
+import {
+  LedesData,
+  LedesExportOptions,
+  ValidationResult,
+  ValidationSeverity,
+} from "./types";
+import { downloadBlob } from "./utils";
+
+// Bumped whenever the JSON export shape changes incompatibly
+export const LEDES_JSON_SCHEMA_VERSION = 1;
+
+// Schema of a finding's fix, shared by row and dataset errors
+const FIX_SCHEMA = {
+  type: "object",
+  description: "Correction that can be applied to the rows",
+  required: ["label", "changes"],
+  properties: {
+    label: { type: "string" },
+    changes: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["row", "field", "value"],
+        properties: {
+          row: { type: "integer", description: "1-based index into rows" },
+          field: { type: "string" },
+          value: { type: "string" },
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * JSON Schema (draft-07) for the JSON export. Rows are keyed by LEDES field
+ * name, in the order given by "headers"; all values are strings exactly as
+ * they would appear in the pipe-delimited file.
+ */
+export const LEDES_JSON_SCHEMA = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "LEDES invoice data",
+  type: "object",
+  required: ["schema_version", "format", "version", "headers", "rows"],
+  properties: {
+    schema_version: { const: LEDES_JSON_SCHEMA_VERSION },
+    format: { enum: ["LEDES98BI", "LEDES1998B"] },
+    version: {
+      type: "string",
+      description:
+        'Version line without the [] terminator, e.g. "LEDES98BI V2"',
+    },
+    headers: {
+      type: "array",
+      items: { type: "string" },
+      description: "LEDES field names in file column order",
+    },
+    rows: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: { type: "string" },
+      },
+    },
+    validation: {
+      type: "object",
+      description: "Present when exported with validation errors",
+      required: ["row_errors", "dataset_errors"],
+      properties: {
+        row_errors: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["field", "column", "value", "error"],
+            properties: {
+              field: { type: "string" },
+              column: { type: "integer", description: "1-based" },
+              value: { type: "string" },
+              error: { type: "string" },
+              rule: { type: "string", description: "Stable rule ID" },
+              severity: { enum: ["error", "warning", "info"] },
+              params: {
+                type: "object",
+                additionalProperties: { type: ["string", "number"] },
+              },
+              fix: FIX_SCHEMA,
+              highlights: {
+                type: "array",
+                description: "Character ranges of value the finding is about",
+                items: {
+                  type: "object",
+                  required: ["start", "end"],
+                  properties: {
+                    start: { type: "integer" },
+                    end: { type: "integer", description: "Exclusive" },
+                  },
+                },
+              },
+              row: { type: "integer", description: "1-based index into rows" },
+              line: { type: "integer", description: "Line in the source file" },
+              file: {
+                type: "string",
+                description: "Source file, when files were merged",
+              },
+            },
+          },
+        },
+        dataset_errors: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["type", "invoice_identifier", "error", "affected_rows"],
+            properties: {
+              type: { type: "string" },
+              invoice_identifier: { type: "string" },
+              error: { type: "string" },
+              affected_rows: { type: "array", items: { type: "integer" } },
+              rule: { type: "string", description: "Stable rule ID" },
+              severity: { enum: ["error", "warning", "info"] },
+              params: {
+                type: "object",
+                additionalProperties: { type: ["string", "number"] },
+              },
+              fix: FIX_SCHEMA,
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const ERROR_COUNT_COLUMN = "VALIDATION_ERROR_COUNT";
+const ERRORS_COLUMN = "VALIDATION_ERRORS";
+
+// Errors are the default, so only other severities are called out
+function findingText(severity: ValidationSeverity, message: string): string {
+  return severity === "error" ? message : `[${severity}] ${message}`;
+}
+
+// Messages per 1-based row, field errors first, then invoice-level ones
+function errorsByRow(
+  validation: ValidationResult,
+  rowCount: number
+): string[][] {
+  const byRow: string[][] = Array.from({ length: rowCount }, () => []);
+  validation.row_errors.forEach((error) => {
+    if (error.row) {
+      byRow[error.row - 1]?.push(
+        findingText(error.severity, `${error.field}: ${error.error}`)
+      );
+    }
+  });
+  validation.dataset_errors.forEach((error) => {
+    error.affected_rows.forEach((row) =>
+      byRow[row - 1]?.push(findingText(error.severity, error.error))
+    );
+  });
+  return byRow;
+}
+
+function tableWithErrors(
+  data: LedesData,
+  validation: ValidationResult | undefined,
+  options: LedesExportOptions
+): string[][] {
+  const withErrors = !!(options.includeValidationErrors && validation);
+  const errors = withErrors
+    ? errorsByRow(validation as ValidationResult, data.rows.length)
+    : [];
+
+  return [
+    withErrors
+      ? [...data.headers, ERROR_COUNT_COLUMN, ERRORS_COLUMN]
+      : data.headers,
+    ...data.rows.map((row, i) => {
+      const cells = data.headers.map((header) => row[header] || "");
+      return withErrors
+        ? [...cells, String(errors[i].length), errors[i].join("; ")]
+        : cells;
+    }),
+  ];
+}
+
+// Excel and similar apps run cells starting with these as formulas, e.g. a
+// description of =HYPERLINK(...) in a file from a vendor
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+function csvField(value: string, escapeFormulas: boolean): string {
+  // Negative amounts are not formulas and stay numbers
+  const text =
+    escapeFormulas && FORMULA_START.test(value) && !PLAIN_NUMBER.test(value)
+      ? `'${value}`
+      : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 text with CRLF line breaks
+export function formatCsv(rows: string[][], escapeFormulas = true): string {
+  return (
+    rows
+      .map((cells) =>
+        cells.map((cell) => csvField(cell, escapeFormulas)).join(",")
+      )
+      .join("\r\n") + "\r\n"
+  );
+}
+
+// Days since 1899-12-30, Excel's epoch, for a YYYYMMDD string
+function excelSerialDate(value: string): number | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const utc = Date.UTC(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3])
+  );
+  return (utc - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+export class LedesExporter {
+  static toCsv(
+    data: LedesData,
+    validation?: ValidationResult,
+    options: LedesExportOptions = {}
+  ): string {
+    return formatCsv(
+      tableWithErrors(data, validation, options),
+      options.escapeFormulas !== false
+    );
+  }
+
+  static toJson(
+    data: LedesData,
+    validation?: ValidationResult,
+    options: LedesExportOptions = {}
+  ): string {
+    const document = {
+      schema_version: LEDES_JSON_SCHEMA_VERSION,
+      format: data.format,
+      version: data.version || DEFAULT_VERSIONS[data.format],
+      headers: data.headers,
+      rows: data.rows.map((row) =>
+        data.headers.reduce((out, header) => {
+          out[header] = row[header] || "";
+          return out;
+        }, {} as Record<string, string>)
+      ),
+      ...(options.includeValidationErrors && validation ? { validation } : {}),
+    };
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Builds an Excel workbook: the invoice lines with numbers and dates as
+   * real cell values, plus a "Validation" sheet when errors are included.
+   */
+  static async toXlsx(
+    data: LedesData,
+    validation?: ValidationResult,
+    options: LedesExportOptions = {}
+  ): Promise<ArrayBuffer> {
+    const XLSX = await import("xlsx");
+    const table = tableWithErrors(data, validation, options);
+    const sheet = XLSX.utils.aoa_to_sheet(table);
+
+    // Typed cells let reviewers sum and filter; blank or malformed values stay text
+    data.headers.forEach((header, c) => {
+      const isDate = LEDES_DATE_FIELDS.includes(header);
+      const isNumber = LEDES_NUMERIC_FIELDS.includes(header);
+      if (!isDate && !isNumber) return;
+
+      data.rows.forEach((row, i) => {
+        const value = row[header] || "";
+        const cell = sheet[XLSX.utils.encode_cell({ r: i + 1, c })];
+        if (!cell || !value) return;
+
+        if (isDate) {
+          const serial = excelSerialDate(value);
+          if (serial !== null) {
+            Object.assign(cell, { t: "n", v: serial, z: "yyyy-mm-dd" });
+          }
+        } else if (/^-?\d+(\.\d+)?$/.test(value)) {
+          Object.assign(cell, { t: "n", v: Number(value) });
+        }
+      });
+    });
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Invoice");
+
+    if (options.includeValidationErrors && validation) {
+      const rows: (string | number)[][] = [
+        ["Row", "Line", "Severity", "Rule", "Field", "Value", "Error"],
+        ...validation.row_errors.map((e) => [
+          e.row ?? "",
+          e.line ?? "",
+          e.severity,
+          e.rule,
+          e.field,
+          e.value,
+          e.error,
+        ]),
+        ...validation.dataset_errors.map((e) => [
+          e.affected_rows.join(", "),
+          "",
+          e.severity,
+          e.rule,
+          e.type,
+          e.invoice_identifier,
+          e.error,
+        ]),
+      ];
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet(rows),
+        "Validation"
+      );
+    }
+
+    return XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+  }
+
+  static downloadCsv(
+    data: LedesData,
+    validation?: ValidationResult,
+    filename: string = "ledes_data.csv",
+    options: LedesExportOptions = {}
+  ): void {
+    // Excel only recognises UTF-8 CSV by its BOM
+    const encoding = options.encoding ?? { name: "utf-8", bom: true };
+    downloadBlob(
+      encodeText(this.toCsv(data, validation, options), encoding),
+      filename,
+      `text/csv;charset=${encoding.name}`
+    );
+  }
+
+  static downloadJson(
+    data: LedesData,
+    validation?: ValidationResult,
+    filename: string = "ledes_data.json",
+    options: LedesExportOptions = {}
+  ): void {
+    downloadBlob(
+      this.toJson(data, validation, options),
+      filename,
+      "application/json"
+    );
+  }
+
+  static async downloadXlsx(
+    data: LedesData,
+    validation?: ValidationResult,
+    filename: string = "ledes_data.xlsx",
+    options: LedesExportOptions = {}
+  ): Promise<void> {
+    downloadBlob(
+      await this.toXlsx(data, validation, options),
+      filename,
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+  }
+}
@@ -0,0 +1,520 @@
+import { LEDES_FORMAT_HEADERS, LedesFormat } from "./types";
+
+export type LedesFieldType =
+  | "date"
+  | "amount"
+  | "decimal"
+  | "integer"
+  | "text"
+  | "code"
+  | "currency"
+  | "email"
+  | "postcode"
+  | "region";
+
+export type LedesFieldLevel = "invoice" | "line";
+
+export type LineItemType = "F" | "E" | "IF" | "IE";
+
+export const LINE_ITEM_TYPES: Record<LineItemType, string> = {
+  F: "fee",
+  E: "expense",
+  IF: "fee adjustment",
+  IE: "expense adjustment",
+};
+
+const ALL_LINE_TYPES: LineItemType[] = ["F", "E", "IF", "IE"];
+const FEE_AND_EXPENSE: LineItemType[] = ["F", "E"];
+const BOTH_FORMATS: LedesFormat[] = ["LEDES98BI", "LEDES1998B"];
+
+export interface LedesFieldSpec {
+  name: string;
+  // Short human name, used in messages and the field summary
+  label: string;
+  type: LedesFieldType;
+  level: LedesFieldLevel;
+  maxLength?: number;
+  // Line item types the field must be filled for; every type means always
+  requiredFor?: LineItemType[];
+  allowedValues?: Record<string, string>;
+  description: string;
+  formats: LedesFormat[];
+}
+
+// Field name holding the line item type, which 1998B names differently
+export const LINE_ITEM_TYPE_FIELDS: Record<LedesFormat, string> = {
+  LEDES98BI: "LINE_ITEM_TYPE",
+  LEDES1998B: "EXP/FEE/INV_ADJ_TYPE",
+};
+
+// Field name holding the timekeeper ID
+export const TIMEKEEPER_ID_FIELDS: Record<LedesFormat, string> = {
+  LEDES98BI: "LINE_ITEM_LAWYER_ID",
+  LEDES1998B: "TIMEKEEPER_ID",
+};
+
+const LINE_ITEM_TYPE_VALUES: Record<string, string> = {
+  F: "Fee",
+  E: "Expense",
+  IF: "Invoice-level fee adjustment",
+  IE: "Invoice-level expense adjustment",
+};
+
+export const TIMEKEEPER_CLASSIFICATIONS: Record<string, string> = {
+  PT: "Partner",
+  AS: "Associate",
+  OC: "Of counsel",
+  LA: "Legal assistant",
+  OT: "Other timekeeper",
+};
+
+function field(
+  name: string,
+  spec: Omit<LedesFieldSpec, "name" | "formats"> & {
+    formats?: LedesFormat[];
+  }
+): LedesFieldSpec {
+  return { name, formats: BOTH_FORMATS, ...spec };
+}
+
+function party(prefix: "LAW_FIRM" | "CLIENT", who: string): LedesFieldSpec[] {
+  const invoiceField = (
+    suffix: string,
+    spec: Omit<LedesFieldSpec, "name" | "formats" | "level">
+  ) =>
+    field(`${prefix}_${suffix}`, {
+      ...spec,
+      level: "invoice",
+      formats: ["LEDES98BI"],
+    });
+
+  return [
+    invoiceField("NAME", {
+      label: `${who} name`,
+      type: "text",
+      maxLength: 60,
+      description: `Name of the ${who.toLowerCase()}`,
+    }),
+    invoiceField("ADDRESS_1", {
+      label: `${who} address line 1`,
+      type: "text",
+      maxLength: 60,
+      description: `First line of the ${who.toLowerCase()}'s address`,
+    }),
+    invoiceField("ADDRESS_2", {
+      label: `${who} address line 2`,
+      type: "text",
+      maxLength: 60,
+      description: `Second line of the ${who.toLowerCase()}'s address`,
+    }),
+    invoiceField("CITY", {
+      label: `${who} city`,
+      type: "text",
+      maxLength: 40,
+      description: `City of the ${who.toLowerCase()}'s address`,
+    }),
+    invoiceField("STATEorREGION", {
+      label: `${who} state or region`,
+      type: "region",
+      maxLength: 50,
+      description: "US state code or the name of the state or region",
+    }),
+    invoiceField("POSTCODE", {
+      label: `${who} postcode`,
+      type: "postcode",
+      maxLength: 10,
+      description: "ZIP or postal code",
+    }),
+    invoiceField("COUNTRY", {
+      label: `${who} country`,
+      type: "text",
+      maxLength: 40,
+      description: "Country, preferably as an ISO 3166 code",
+    }),
+    invoiceField("PHONE", {
+      label: `${who} phone`,
+      type: "text",
+      maxLength: 20,
+      description: "Telephone number",
+    }),
+    invoiceField("FAX", {
+      label: `${who} fax`,
+      type: "text",
+      maxLength: 20,
+      description: "Fax number",
+    }),
+    invoiceField("EMAIL", {
+      label: `${who} email`,
+      type: "email",
+      maxLength: 100,
+      description: "Contact email address",
+    }),
+    invoiceField("REGISTRATION_ID", {
+      label: `${who} registration ID`,
+      type: "code",
+      maxLength: 30,
+      description: `Tax or company registration number of the ${who.toLowerCase()}`,
+    }),
+  ];
+}
+
+const FIELD_LIST: LedesFieldSpec[] = [
+  field("INVOICE_DATE", {
+    label: "Invoice date",
+    type: "date",
+    level: "invoice",
+    requiredFor: ALL_LINE_TYPES,
+    description: "Date of the invoice, YYYYMMDD",
+  }),
+  field("INVOICE_NUMBER", {
+    label: "Invoice number",
+    type: "code",
+    level: "invoice",
+    maxLength: 20,
+    requiredFor: ALL_LINE_TYPES,
+    description: "Law firm's invoice number",
+  }),
+  field("CLIENT_ID", {
+    label: "Client ID",
+    type: "code",
+    level: "invoice",
+    maxLength: 20,
+    description: "Client's identifier as assigned by the law firm",
+    formats: ["LEDES1998B"],
+  }),
+  field("CLIENT_MATTER_ID", {
+    label: "Client matter ID",
+    type: "code",
+    level: "invoice",
+    maxLength: 20,
+    description: "Matter identifier as assigned by the client",
+  }),
+  field("LAW_FIRM_MATTER_ID", {
+    label: "Law firm matter ID",
+    type: "code",
+    level: "invoice",
+    maxLength: 20,
+    description: "Matter identifier as assigned by the law firm",
+  }),
+  field("LAW_FIRM_ID", {
+    label: "Law firm ID",
+    type: "code",
+    level: "invoice",
+    maxLength: 20,
+    requiredFor: ALL_LINE_TYPES,
+    description: "Law firm's tax ID or other identifier known to the client",
+    formats: ["LEDES1998B"],
+  }),
+  field("INVOICE_TOTAL", {
+    label: "Invoice total",
+    type: "amount",
+    level: "invoice",
+    requiredFor: ALL_LINE_TYPES,
+    description: "Total amount due on the invoice, repeated on every line",
+  }),
+  field("INVOICE_DESCRIPTION", {
+    label: "Invoice description",
+    type: "text",
+    level: "invoice",
+    maxLength: 1024,
+    description: "Description of the work covered by the invoice",
+  }),
+  field("BILLING_START_DATE", {
+    label: "Billing start date",
+    type: "date",
+    level: "invoice",
+    description: "First day of the billing period, YYYYMMDD",
+  }),
+  field("BILLING_END_DATE", {
+    label: "Billing end date",
+    type: "date",
+    level: "invoice",
+    description: "Last day of the billing period, YYYYMMDD",
+  }),
+  field("INVOICE_TAX_TOTAL", {
+    label: "Invoice tax total",
+    type: "amount",
+    level: "invoice",
+    description: "Total tax on the invoice",
+    formats: ["LEDES98BI"],
+  }),
+  field("INVOICE_NET_TOTAL", {
+    label: "Invoice net total",
+    type: "amount",
+    level: "invoice",
+    requiredFor: ALL_LINE_TYPES,
+    description: "Invoice total before tax",
+    formats: ["LEDES98BI"],
+  }),
+  field("INVOICE_CURRENCY", {
+    label: "Invoice currency",
+    type: "currency",
+    level: "invoice",
+    maxLength: 3,
+    description: "ISO 4217 currency code of the invoice amounts",
+    formats: ["LEDES98BI"],
+  }),
+  field("INVOICE_TAX_CURRENCY", {
+    label: "Tax currency",
+    type: "currency",
+    level: "invoice",
+    maxLength: 3,
+    description: "ISO 4217 currency code in which tax is reported",
+    formats: ["LEDES98BI"],
+  }),
+  field("INVOICE_REPORTED_TAX_TOTAL", {
+    label: "Reported tax total",
+    type: "amount",
+    level: "invoice",
+    description: "Invoice tax total expressed in the tax currency",
+    formats: ["LEDES98BI"],
+  }),
+  field("LINE_ITEM_NUMBER", {
+    label: "Line item number",
+    type: "integer",
+    level: "line",
+    requiredFor: ALL_LINE_TYPES,
+    description: "Sequence number of the line within the invoice",
+  }),
+  field("LINE_ITEM_TYPE", {
+    label: "Line item type",
+    type: "code",
+    level: "line",
+    maxLength: 2,
+    requiredFor: ALL_LINE_TYPES,
+    allowedValues: LINE_ITEM_TYPE_VALUES,
+    description: "Fee, expense, or an invoice-level adjustment to either",
+    formats: ["LEDES98BI"],
+  }),
+  field("EXP/FEE/INV_ADJ_TYPE", {
+    label: "Line item type",
+    type: "code",
+    level: "line",
+    maxLength: 2,
+    requiredFor: ALL_LINE_TYPES,
+    allowedValues: LINE_ITEM_TYPE_VALUES,
+    description: "Fee, expense, or an invoice-level adjustment to either",
+    formats: ["LEDES1998B"],
+  }),
+  field("LINE_ITEM_NUMBER_OF_UNITS", {
+    label: "Number of units",
+    type: "decimal",
+    level: "line",
+    requiredFor: FEE_AND_EXPENSE,
+    description: "Hours for fees, quantity for expenses",
+  }),
+  field("LINE_ITEM_DATE", {
+    label: "Line item date",
+    type: "date",
+    level: "line",
+    requiredFor: ALL_LINE_TYPES,
+    description: "Date the work was done or the expense incurred, YYYYMMDD",
+  }),
+  field("LINE_ITEM_UNIT_COST", {
+    label: "Unit cost",
+    type: "amount",
+    level: "line",
+    requiredFor: FEE_AND_EXPENSE,
+    description: "Hourly rate for fees, cost per unit for expenses",
+  }),
+  field("LINE_ITEM_ADJUSTMENT_AMOUNT", {
+    label: "Adjustment amount",
+    type: "amount",
+    level: "line",
+    description: "Discount (negative) or surcharge applied to the line",
+  }),
+  field("LINE_ITEM_TOTAL", {
+    label: "Line item total",
+    type: "amount",
+    level: "line",
+    requiredFor: ALL_LINE_TYPES,
+    description: "Units × unit cost + adjustment (+ tax for 98BI)",
+  }),
+  field("LINE_ITEM_TAX_TOTAL", {
+    label: "Line item tax",
+    type: "amount",
+    level: "line",
+    description: "Tax charged on the line",
+    formats: ["LEDES98BI"],
+  }),
+  field("LINE_ITEM_TAX_RATE", {
+    label: "Tax rate",
+    type: "decimal",
+    level: "line",
+    description: "Tax rate applied to the line, as a fraction (0.2 = 20%)",
+    formats: ["LEDES98BI"],
+  }),
+  field("LINE_ITEM_DESCRIPTION", {
+    label: "Description",
+    type: "text",
+    level: "line",
+    maxLength: 1024,
+    requiredFor: ["F"],
+    description: "Narrative describing the work or expense",
+  }),
+  field("LINE_ITEM_EXPENSE_TYPE", {
+    label: "Expense code",
+    type: "code",
+    level: "line",
+    maxLength: 20,
+    requiredFor: ["E"],
+    description: "UTBMS expense code (e.g. E101)",
+    formats: ["LEDES98BI"],
+  }),
+  field("LINE_ITEM_EXPENSE_CODE", {
+    label: "Expense code",
+    type: "code",
+    level: "line",
+    maxLength: 20,
+    requiredFor: ["E"],
+    description: "UTBMS expense code (e.g. E101)",
+    formats: ["LEDES1998B"],
+  }),
+  field("LINE_ITEM_TASK_CODE", {
+    label: "Task code",
+    type: "code",
+    level: "line",
+    maxLength: 20,
+    requiredFor: ["F"],
+    description: "UTBMS task code (e.g. L110)",
+  }),
+  field("LINE_ITEM_ACTIVITY_CODE", {
+    label: "Activity code",
+    type: "code",
+    level: "line",
+    maxLength: 20,
+    description: "UTBMS activity code (e.g. A101)",
+  }),
+  field("LINE_ITEM_LAWYER_ID", {
+    label: "Timekeeper ID",
+    type: "code",
+    level: "line",
+    maxLength: 20,
+    requiredFor: ["F"],
+    description: "Identifier of the timekeeper who did the work",
+    formats: ["LEDES98BI"],
+  }),
+  field("TIMEKEEPER_ID", {
+    label: "Timekeeper ID",
+    type: "code",
+    level: "line",
+    maxLength: 20,
+    requiredFor: ["F"],
+    description: "Identifier of the timekeeper who did the work",
+    formats: ["LEDES1998B"],
+  }),
+  field("TIMEKEEPER_NAME", {
+    label: "Timekeeper name",
+    type: "text",
+    level: "line",
+    maxLength: 30,
+    description: "Timekeeper's name, Last, First",
+    formats: ["LEDES1998B"],
+  }),
+  field("TIMEKEEPER_CLASSIFICATION", {
+    label: "Timekeeper classification",
+    type: "code",
+    level: "line",
+    maxLength: 10,
+    allowedValues: TIMEKEEPER_CLASSIFICATIONS,
+    description: "Timekeeper's role",
+    formats: ["LEDES1998B"],
+  }),
+  field("LINE_ITEM_EXP_DESCRIPTION", {
+    label: "Expense description",
+    type: "text",
+    level: "line",
+    maxLength: 1024,
+    description: "Free-text description of the expense",
+    formats: ["LEDES98BI"],
+  }),
+  ...party("LAW_FIRM", "Law firm"),
+  ...party("CLIENT", "Client"),
+  ...["RESERVED1", "RESERVED2", "RESERVED3"].map((name) =>
+    field(name, {
+      label: "Reserved",
+      type: "text",
+      level: "line",
+      description: "Reserved for future use; leave empty",
+      formats: ["LEDES98BI"],
+    })
+  ),
+];
+
+export const LEDES_FIELDS: Record<string, LedesFieldSpec> = FIELD_LIST.reduce(
+  (fields, spec) => {
+    fields[spec.name] = spec;
+    return fields;
+  },
+  {} as Record<string, LedesFieldSpec>
+);
+
+// Fields holding YYYYMMDD dates, in either format
+export const LEDES_DATE_FIELDS = FIELD_LIST.filter(
+  (spec) => spec.type === "date"
+).map((spec) => spec.name);
+
+// Fields holding amounts, quantities or rates, in either format
+export const LEDES_NUMERIC_FIELDS = FIELD_LIST.filter(
+  (spec) => spec.type === "amount" || spec.type === "decimal"
+).map((spec) => spec.name);
+
+export function getFieldSpec(name: string): LedesFieldSpec | undefined {
+  return LEDES_FIELDS[name];
+}
+
+// Specs for a format's standard fields, in spec column order
+export function fieldsForFormat(format: LedesFormat): LedesFieldSpec[] {
+  return LEDES_FORMAT_HEADERS[format].map((name) => LEDES_FIELDS[name]);
+}
+
+// Required on every line, whatever its type
+export function isAlwaysRequired(spec: LedesFieldSpec): boolean {
+  return spec.requiredFor?.length === ALL_LINE_TYPES.length;
+}
+
+/**
+ * Whether a field must be filled on a line of the given type. When the type
+ * is missing or unrecognised only fields required on every line count.
+ */
+export function isFieldRequired(
+  spec: LedesFieldSpec,
+  format: LedesFormat,
+  lineType: string
+): boolean {
+  if (!spec.requiredFor || !spec.formats.includes(format)) {
+    return false;
+  }
+  const type = lineType.trim().toUpperCase() as LineItemType;
+  return type in LINE_ITEM_TYPES
+    ? spec.requiredFor.includes(type)
+    : isAlwaysRequired(spec);
+}
+
+// Multi-line summary for header tooltips
+export function describeField(spec: LedesFieldSpec): string {
+  const lines = [`${spec.name} — ${spec.label}`, spec.description];
+  const facts = [
+    `${spec.level === "invoice" ? "Invoice" : "Line"}-level ${spec.type}`,
+  ];
+  if (spec.maxLength) facts.push(`max ${spec.maxLength} characters`);
+  lines.push(facts.join(", "));
+
+  if (spec.requiredFor) {
+    lines.push(
+      isAlwaysRequired(spec)
+        ? "Required"
+        : `Required on ${spec.requiredFor
+            .map((type) => `${LINE_ITEM_TYPES[type]} (${type})`)
+            .join(" and ")} lines`
+    );
+  }
+  if (spec.allowedValues) {
+    lines.push(
+      `Allowed: ${Object.entries(spec.allowedValues)
+        .map(([value, meaning]) => `${value} = ${meaning}`)
+        .join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -1,126 +1,196 @@
-import { LEDES_HEADERS, LedesData } from "./types";
+import {
+  decodeBytes,
+  detectEncoding,
+  encodeText,
+  findUndefinedBytes,
+} from "./encoding";
+import {
+  DEFAULT_VERSIONS,
+  emptyParseReport,
+  LedesStreamParser,
+} from "./ledesParser";
+import { LedesXmlHandler } from "./ledesXmlHandler";
+import {
+  LedesData,
+  LedesExportOptions,
+  LineEnding,
+  LoadProgress,
+  TextEncodingName,
+} from "./types";
+import { downloadBlob } from "./utils";
+import type {
+  ParseWorkerRequest,
+  ParseWorkerResponse,
+} from "../workers/ledesParser.worker";
+
+const LINE_ENDINGS: Record<LineEnding, string> = {
+  CRLF: "\r\n",
+  LF: "\n",
+};
+
+export interface LoadOptions {
+  onProgress?: (progress: LoadProgress) => void;
+  signal?: AbortSignal;
+  // Overrides encoding detection
+  encoding?: TextEncodingName;
+}
 
 export class LedesFileHandler {
   static parseFile(content: string): LedesData {
-    const lines = content.split("\n").filter((line) => line.trim());
+    const parser = new LedesStreamParser();
+    content.split("\n").forEach((line) => parser.pushLine(line));
+    return parser.finish();
+  }
 
-    if (lines.length === 0) {
-      throw new Error("File is empty");
-    }
+  static formatForDownload(
+    data: LedesData,
+    options: LedesExportOptions = {}
+  ): string {
+    const { headers, rows } = data;
+    const lineEnding = LINE_ENDINGS[options.lineEnding ?? "CRLF"];
 
-    let headers: string[];
-    let dataStartIndex = 0;
-
-    // Look for the header line (contains pipe delimiters and field names)
-    let headerLine: string | null = null;
-    for (let i = 0; i < Math.min(lines.length, 3); i++) {
-      const line = lines[i];
-      if (line.includes("|") && !line.match(/^LEDES98BI\s+V\d+\[\]$/)) {
-        // This looks like a header line (has pipes and isn't version info)
-        headerLine = line;
-        dataStartIndex = i + 1;
-        break;
-      }
-    }
+    // Every record, the header included, is terminated by []
+    const records = [
+      headers.join("|"),
+      ...rows.map((row) =>
+        headers.map((header) => row[header] || "").join("|")
+      ),
+    ].map((record) => `${record}[]`);
 
-    if (headerLine && headerLine.includes("|")) {
-      headers = headerLine.split("|").map((h) => {
-        // Remove LEDES format suffixes like [] from headers
-        return h.trim().replace(/\[\]$/, "").trim();
-      });
-    } else {
-      // Use default LEDES headers if no header line found
-      headers = [...LEDES_HEADERS];
-      dataStartIndex = 0;
-    }
+    const versionLine = `${data.version || DEFAULT_VERSIONS[data.format]}[]`;
 
-    // Parse data rows (skip lines before data)
-    const dataLines = lines.slice(dataStartIndex);
-
-    const rows = dataLines
-      .filter((line) => {
-        // Skip empty lines
-        const trimmedLine = line.trim();
-        if (!trimmedLine) return false;
-
-        // Skip version lines
-        if (trimmedLine.match(/^LEDES98BI\s+V\d+\[\]$/)) return false;
-
-        // Skip lines that contain header indicators like [] at the end of every field
-        if (trimmedLine.includes("[]") && trimmedLine.endsWith("[]")) {
-          const fields = trimmedLine.split("|");
-          const allFieldsHaveBrackets = fields.every((field) =>
-            field.trim().endsWith("[]")
-          );
-          if (allFieldsHaveBrackets) return false;
-        }
-
-        // Must have pipe delimiters to be a valid data row
-        if (!trimmedLine.includes("|")) return false;
+    return (
+      [versionLine, ...(data.preamble ?? []), ...records].join(lineEnding) +
+      lineEnding
+    );
+  }
 
-        return true;
-      })
-      .map((line, index) => {
-        const fields = line.split("|");
+  static downloadFile(
+    data: LedesData,
+    filename: string = "ledes_data.txt",
+    options: LedesExportOptions = {}
+  ): void {
+    const encoding = options.encoding ??
+      data.encoding ?? { name: "utf-8", bom: false };
+    const content = this.formatForDownload(data, options);
+    downloadBlob(
+      encodeText(content, encoding),
+      filename,
+      `text/plain;charset=${encoding.name}`
+    );
+  }
 
-        // Ensure we have the right number of fields
-        while (fields.length < headers.length) {
-          fields.push("");
-        }
+  /**
+   * Parses a file off the main thread. The worker streams the file in chunks
+   * and reports progress; aborting the signal terminates it mid-load.
+   */
+  static async loadFromFile(
+    file: File,
+    options: LoadOptions = {}
+  ): Promise<LedesData> {
+    if (typeof Worker === "undefined") {
+      return this.loadFromFileInline(file, options.encoding);
+    }
 
-        // Create row object
-        const row: Record<string, string> = {};
-        headers.forEach((header, i) => {
-          row[header] = (fields[i] || "").trim();
-        });
+    const { onProgress, signal, encoding } = options;
 
-        return row;
-      });
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException("File load cancelled", "AbortError"));
+        return;
+      }
 
-    return { headers, rows };
-  }
+      const worker = new Worker(
+        new URL("../workers/ledesParser.worker.ts", import.meta.url)
+      );
 
-  static formatForDownload(data: LedesData): string {
-    const { headers, rows } = data;
+      const onAbort = () => {
+        worker.terminate();
+        reject(new DOMException("File load cancelled", "AbortError"));
+      };
+      const finish = () => {
+        signal?.removeEventListener("abort", onAbort);
+        worker.terminate();
+      };
 
-    // Create header line with [] suffix for LEDES format
-    const headerLine = headers.map((h) => `${h}[]`).join("|");
+      signal?.addEventListener("abort", onAbort);
+
+      worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case "progress":
+            onProgress?.(message.progress);
+            break;
+          case "done":
+            finish();
+            resolve(this.withUndefinedBytes(message.data));
+            break;
+          case "xml":
+            // DOMParser is not available in workers
+            finish();
+            try {
+              resolve(
+                this.withUndefinedBytes({
+                  ...LedesXmlHandler.parseXml(message.content),
+                  encoding: message.encoding,
+                })
+              );
+            } catch (error) {
+              reject(error);
+            }
+            break;
+          case "error":
+            finish();
+            reject(new Error(message.error));
+            break;
+        }
+      };
 
-    // Create data lines
-    const dataLines = rows.map((row) =>
-      headers.map((header) => row[header] || "").join("|")
-    );
+      worker.onerror = () => {
+        finish();
+        reject(new Error("Failed to read file"));
+      };
 
-    return [headerLine, ...dataLines].join("\n");
+      const request: ParseWorkerRequest = { file, encoding };
+      worker.postMessage(request);
+    });
   }
 
-  static downloadFile(
-    data: LedesData,
-    filename: string = "ledes_data.txt"
-  ): void {
-    const content = this.formatForDownload(data);
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    URL.revokeObjectURL(url);
+  // Adds cells with bytes the file's encoding leaves undefined to the report
+  private static withUndefinedBytes(data: LedesData): LedesData {
+    const undefinedBytes = findUndefinedBytes(data);
+    if (undefinedBytes.length === 0) return data;
+    return {
+      ...data,
+      parseReport: {
+        ...(data.parseReport ?? emptyParseReport()),
+        undefined_bytes: undefinedBytes,
+      },
+    };
   }
 
-  static async loadFromFile(file: File): Promise<LedesData> {
+  private static loadFromFileInline(
+    file: File,
+    override?: TextEncodingName
+  ): Promise<LedesData> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
 
       reader.onload = (e) => {
         try {
-          const content = e.target?.result as string;
-          const data = this.parseFile(content);
-          resolve(data);
+          const bytes = new Uint8Array(e.target?.result as ArrayBuffer);
+          const detected = detectEncoding(bytes);
+          const encoding = override
+            ? {
+                name: override,
+                bom: override === detected.name && detected.bom,
+              }
+            : detected;
+          const content = decodeBytes(bytes, encoding);
+          const data = LedesXmlHandler.isXml(content)
+            ? LedesXmlHandler.parseXml(content)
+            : this.parseFile(content);
+          resolve(this.withUndefinedBytes({ ...data, encoding }));
         } catch (error) {
           reject(error);
         }
@@ -130,7 +200,7 @@ export class LedesFileHandler {
         reject(new Error("Failed to read file"));
       };
 
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     });
   }
 
@@ -0,0 +1,146 @@
+import { LedesConverter } from "./ledesConverter";
+import { emptyParseReport } from "./ledesParser";
+import {
+  LEDES_FORMAT_HEADERS,
+  LedesData,
+  LedesRow,
+  MergeReport,
+  MergedFileReport,
+} from "./types";
+
+/**
+ * Combines datasets loaded from several files into one workspace. Rows keep
+ * the file they came from in `sources`, so validation and the parse report can
+ * point back at the right file and line.
+ */
+export class LedesMerger {
+  // Stamps every row and parse report entry with the file it was read from
+  static tagWithFile(data: LedesData, file: string): LedesData {
+    const report = data.parseReport;
+    return {
+      ...data,
+      sources: data.rows.map((_, i) => ({
+        ...(data.sources?.[i] ?? {}),
+        file,
+      })),
+      parseReport: report && {
+        field_count_mismatches: report.field_count_mismatches.map((m) => ({
+          ...m,
+          file,
+        })),
+        discarded_lines: report.discarded_lines.map((d) => ({ ...d, file })),
+        duplicate_headers: report.duplicate_headers.map((d) => ({
+          ...d,
+          file,
+        })),
+        undefined_bytes: report.undefined_bytes.map((u) => ({ ...u, file })),
+      },
+    };
+  }
+
+  /**
+   * Appends datasets to a base workspace (or to the first of them when there
+   * is none). Everything is converted to the base format; the merged header
+   * set is the union of all files, standard fields in spec order followed by
+   * any non-standard columns in the order they were first seen.
+   */
+  static merge(
+    base: LedesData | null,
+    additions: Array<{ file: string; data: LedesData }>
+  ): { data: LedesData; report: MergeReport } {
+    if (!base && additions.length === 0) {
+      throw new Error("Nothing to merge");
+    }
+
+    const format = base ? base.format : additions[0].data.format;
+    const standard = LEDES_FORMAT_HEADERS[format];
+
+    const converted = additions.map(({ file, data }) => {
+      if (data.format === format) {
+        return { file, data, conversion: undefined };
+      }
+      const { data: convertedData, report } = LedesConverter.convert(
+        data,
+        format
+      );
+      return { file, data: convertedData, conversion: report };
+    });
+
+    const all = [...(base ? [base] : []), ...converted.map((c) => c.data)];
+    const seen = new Set<string>();
+    all.forEach((data) => data.headers.forEach((h) => seen.add(h)));
+
+    // A lone dataset keeps its own column order
+    const headers =
+      all.length === 1
+        ? [...all[0].headers]
+        : [
+            ...standard.filter((h) => seen.has(h)),
+            ...Array.from(seen).filter((h) => !standard.includes(h)),
+          ];
+
+    const fill = (row: LedesRow): LedesRow =>
+      headers.reduce((out, header) => {
+        out[header] = row[header] ?? "";
+        return out;
+      }, {} as LedesRow);
+
+    const first = base ?? converted[0].data;
+    const rows: LedesRow[] = [];
+    const sources: NonNullable<LedesData["sources"]> = [];
+    const parseReport = emptyParseReport();
+    let hasParseReport = false;
+
+    // Appended row by row: spreading a large file into push() overflows the
+    // call stack
+    all.forEach((data) => {
+      const offset = rows.length;
+      data.rows.forEach((row, i) => {
+        rows.push(fill(row));
+        sources.push(data.sources?.[i] ?? {});
+      });
+
+      if (data.parseReport) {
+        hasParseReport = true;
+        data.parseReport.field_count_mismatches.forEach((m) => {
+          parseReport.field_count_mismatches.push({
+            ...m,
+            row: m.row + offset,
+          });
+        });
+        data.parseReport.discarded_lines.forEach((line) => {
+          parseReport.discarded_lines.push(line);
+        });
+        data.parseReport.duplicate_headers.forEach((duplicate) => {
+          parseReport.duplicate_headers.push(duplicate);
+        });
+        data.parseReport.undefined_bytes.forEach((cell) => {
+          parseReport.undefined_bytes.push({ ...cell, row: cell.row + offset });
+        });
+      }
+    });
+
+    const files: MergedFileReport[] = converted.map(
+      ({ file, data, conversion }) => ({
+        file,
+        rows: data.rows.length,
+        converted_from: conversion?.from,
+        dropped_fields: conversion?.dropped_fields,
+        rows_with_data_loss: conversion?.rows_with_data_loss,
+        missing_fields: headers.filter((h) => !data.headers.includes(h)),
+        extra_fields: data.headers.filter((h) => !standard.includes(h)),
+      })
+    );
+
+    return {
+      data: {
+        ...first,
+        headers,
+        rows,
+        sources,
+        parseReport: hasParseReport ? parseReport : undefined,
+      },
+      report: { format, files },
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import { getFieldSpec } from "./ledesFields";
+import {
+  LEDES_1998B_HEADERS,
+  LEDES_FORMAT_HEADERS,
+  LedesData,
+  LedesFormat,
+  LedesRow,
+  ParseReport,
+  RowSource,
+} from "./types";
+
+const VERSION_LINE_PATTERNS: Record<LedesFormat, RegExp> = {
+  LEDES98BI: /^LEDES98BI\s+V\d+\[\]$/,
+  LEDES1998B: /^LEDES1998B\[\]$/,
+};
+
+export const DEFAULT_VERSIONS: Record<LedesFormat, string> = {
+  LEDES98BI: "LEDES98BI V2",
+  LEDES1998B: "LEDES1998B",
+};
+
+export function emptyParseReport(): ParseReport {
+  return {
+    field_count_mismatches: [],
+    discarded_lines: [],
+    duplicate_headers: [],
+    undefined_bytes: [],
+  };
+}
+
+// The header row, if any, is expected within this many non-empty lines
+const HEADER_SEARCH_LINES = 3;
+
+export function isVersionLine(line: string): boolean {
+  return Object.values(VERSION_LINE_PATTERNS).some((pattern) =>
+    pattern.test(line.trim())
+  );
+}
+
+// LEDES records end with "[]"; it is a terminator, not part of the last field
+export function stripRecordTerminator(line: string): string {
+  return line.trim().replace(/\[\]$/, "");
+}
+
+export function detectFormat(
+  versionLine: string | null,
+  headers: string[] | null,
+  firstRowFieldCount?: number
+): LedesFormat {
+  if (versionLine) {
+    const match = (Object.keys(VERSION_LINE_PATTERNS) as LedesFormat[]).find(
+      (format) => VERSION_LINE_PATTERNS[format].test(versionLine.trim())
+    );
+    if (match) return match;
+  }
+
+  if (headers) {
+    // 1998B-only field names are a reliable signal even with a partial header
+    const is1998BOnly = (h: string) => {
+      const formats = getFieldSpec(h)?.formats;
+      return formats?.length === 1 && formats[0] === "LEDES1998B";
+    };
+    if (headers.some(is1998BOnly)) {
+      return "LEDES1998B";
+    }
+    return "LEDES98BI";
+  }
+
+  if (firstRowFieldCount === LEDES_1998B_HEADERS.length) {
+    return "LEDES1998B";
+  }
+
+  return "LEDES98BI";
+}
+
+/**
+ * Line-at-a-time LEDES parser. Feed it lines in file order with pushLine()
+ * and call finish() once the input is exhausted. Used both for whole-file
+ * parsing and for streaming large files from a worker.
+ *
+ * Every line is accounted for: rows remember the line they came from, and
+ * anything padded, truncated or skipped is recorded in the parse report.
+ */
+export class LedesStreamParser {
+  private lineNumber = 0;
+  private nonEmptyLines = 0;
+  private versionLine: string | null = null;
+  private headerLine: string | null = null;
+  private preamble: Array<{ line: number; content: string }> = [];
+  private headers: string[] | null = null;
+  private format: LedesFormat = "LEDES98BI";
+  private rows: LedesRow[] = [];
+  private sources: RowSource[] = [];
+  private report: ParseReport = emptyParseReport();
+
+  get rowCount(): number {
+    return this.rows.length;
+  }
+
+  pushLine(line: string): void {
+    this.lineNumber++;
+    const trimmedLine = line.trim();
+    if (!trimmedLine) return;
+    this.nonEmptyLines++;
+
+    if (this.headers) {
+      this.addDataLine(trimmedLine);
+      return;
+    }
+
+    if (this.nonEmptyLines <= HEADER_SEARCH_LINES) {
+      // Look for the version line and the header line (contains pipe delimiters and field names)
+      if (isVersionLine(trimmedLine)) {
+        this.versionLine = trimmedLine;
+      } else if (trimmedLine.includes("|")) {
+        // This looks like a header line (has pipes and isn't version info)
+        this.headerLine = trimmedLine;
+        this.headers = stripRecordTerminator(trimmedLine)
+          .split("|")
+          .map((h) => {
+            // Remove LEDES format suffixes like [] from headers
+            return h.trim().replace(/\[\]$/, "").trim();
+          });
+        this.format = detectFormat(this.versionLine, this.headers);
+        this.recordDuplicateHeaders(this.headers);
+      } else {
+        // Anything else ahead of the header is preamble we carry through to export
+        this.preamble.push({ line: this.lineNumber, content: trimmedLine });
+      }
+      return;
+    }
+
+    // No header row: the first record decides which default header set applies
+    if (trimmedLine.includes("|") && !isVersionLine(trimmedLine)) {
+      this.format = detectFormat(
+        this.versionLine,
+        null,
+        stripRecordTerminator(trimmedLine).split("|").length
+      );
+      this.headers = [...LEDES_FORMAT_HEADERS[this.format]];
+      this.addDataLine(trimmedLine);
+      return;
+    }
+
+    this.discard(
+      trimmedLine,
+      isVersionLine(trimmedLine)
+        ? "Version line after the first lines of the file"
+        : "No pipe delimiters before the first record"
+    );
+  }
+
+  finish(): LedesData {
+    if (this.nonEmptyLines === 0) {
+      throw new Error("File is empty");
+    }
+
+    if (!this.headers) {
+      this.format = detectFormat(this.versionLine, null);
+      this.headers = [...LEDES_FORMAT_HEADERS[this.format]];
+    }
+
+    // Without a header row there is nothing to anchor a preamble to
+    if (!this.headerLine) {
+      this.preamble.forEach(({ line, content }) => {
+        this.report.discarded_lines.push({
+          line,
+          content,
+          reason: "Text before the first record in a file without a header row",
+        });
+      });
+    }
+
+    return {
+      headers: this.headers,
+      rows: this.rows,
+      format: this.format,
+      version: this.versionLine
+        ? stripRecordTerminator(this.versionLine)
+        : DEFAULT_VERSIONS[this.format],
+      preamble: this.headerLine ? this.preamble.map((p) => p.content) : [],
+      sources: this.sources,
+      parseReport: this.report,
+    };
+  }
+
+  private addDataLine(trimmedLine: string): void {
+    const headers = this.headers as string[];
+
+    // Skip version lines
+    if (isVersionLine(trimmedLine)) {
+      this.discard(trimmedLine, "Version line inside the data section");
+      return;
+    }
+
+    // Skip lines that contain header indicators like [] at the end of every field
+    if (trimmedLine.includes("[]") && trimmedLine.endsWith("[]")) {
+      const fields = trimmedLine.split("|");
+      const allFieldsHaveBrackets = fields.every((field) =>
+        field.trim().endsWith("[]")
+      );
+      if (allFieldsHaveBrackets) {
+        this.discard(trimmedLine, "Repeated header row");
+        return;
+      }
+    }
+
+    // Must have pipe delimiters to be a valid data row
+    if (!trimmedLine.includes("|")) {
+      this.discard(trimmedLine, "No pipe delimiters");
+      return;
+    }
+
+    const fields = stripRecordTerminator(trimmedLine).split("|");
+
+    if (fields.length !== headers.length) {
+      this.report.field_count_mismatches.push({
+        line: this.lineNumber,
+        row: this.rows.length + 1,
+        expected: headers.length,
+        actual: fields.length,
+      });
+    }
+
+    // Ensure we have the right number of fields
+    while (fields.length < headers.length) {
+      fields.push("");
+    }
+
+    // Create row object
+    const row: LedesRow = {};
+    headers.forEach((header, i) => {
+      row[header] = (fields[i] || "").trim();
+    });
+
+    this.rows.push(row);
+    this.sources.push({ line: this.lineNumber });
+  }
+
+  private discard(content: string, reason: string): void {
+    this.report.discarded_lines.push({
+      line: this.lineNumber,
+      content,
+      reason,
+    });
+  }
+
+  private recordDuplicateHeaders(headers: string[]): void {
+    const columns: Record<string, number[]> = {};
+    headers.forEach((header, i) => {
+      (columns[header] = columns[header] || []).push(i + 1);
+    });
+    Object.entries(columns).forEach(([field, positions]) => {
+      if (positions.length > 1) {
+        this.report.duplicate_headers.push({ field, columns: positions });
+      }
+    });
+  }
+}
@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { LedesValidator } from "./ledesValidator";
+import { LedesXmlHandler } from "./ledesXmlHandler";
+
+// A fee line taxed at 20%: 2 × 150.00 = 300.00, plus 60.00 tax
+const TAXED_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<ledesxmlebilling2.1>
+  <firm>
+    <lf_name>Firm LLP</lf_name>
+    <client>
+      <cl_name>Client Ltd</cl_name>
+      <invoice>
+        <inv_id>INV-1</inv_id>
+        <inv_date>2024-01-31</inv_date>
+        <inv_currency>GBP</inv_currency>
+        <matter>
+          <lf_matter_id>M1</lf_matter_id>
+          <tksum>
+            <tk_id>JD</tk_id>
+            <tk_rate>150.00</tk_rate>
+            <tk_hours>2.00</tk_hours>
+            <tk_total>360.00</tk_total>
+          </tksum>
+          <fee>
+            <line_item_number>1</line_item_number>
+            <charge_date>2024-01-15</charge_date>
+            <tk_id>JD</tk_id>
+            <units>2</units>
+            <rate>150.00</rate>
+            <total_amount>360.00</total_amount>
+            <description>Review pleadings</description>
+            <tax>
+              <tax_rate_percent>20</tax_rate_percent>
+              <tax_on_charge>60.00</tax_on_charge>
+            </tax>
+          </fee>
+        </matter>
+      </invoice>
+    </client>
+  </firm>
+</ledesxmlebilling2.1>
+`;
+
+describe("LedesXmlHandler", () => {
+  it("imports, validates and exports a taxed line with its tax rate intact", () => {
+    const imported = LedesXmlHandler.parseXml(TAXED_XML);
+    // XML holds percentages; the row model holds fractions
+    expect(imported.rows[0].LINE_ITEM_TAX_RATE).toBe("0.2");
+
+    const dataset = imported.rows.map((row) =>
+      imported.headers.map((header) => row[header] || "")
+    );
+    const result = new LedesValidator().validateDataset(
+      dataset,
+      imported.headers
+    );
+    expect(
+      result.row_errors.filter((error) => error.rule === "line_tax_calculation")
+    ).toEqual([]);
+
+    expect(LedesXmlHandler.formatXml(imported)).toBe(TAXED_XML);
+  });
+});
@@ -0,0 +1,448 @@
+import { LedesConverter } from "./ledesConverter";
+import { encodeText } from "./encoding";
+import {
+  currencyDecimals,
+  formatMinorUnits,
+  parseDecimal,
+  parseMoney,
+} from "./money";
+import {
+  FileEncoding,
+  LEDES_HEADERS,
+  LedesData,
+  LedesRow,
+  LedesXmlVersion,
+} from "./types";
+import { downloadBlob } from "./utils";
+
+const ROOT_ELEMENTS: Record<LedesXmlVersion, string> = {
+  "2.0": "ledesxmlebilling2.0",
+  "2.1": "ledesxmlebilling2.1",
+};
+
+// "percent" elements hold 20 for the 0.2 the row model stores
+type FieldKind = "date" | "percent";
+
+type FieldMapping = Array<[path: string, field: string, kind?: FieldKind]>;
+
+function addressMapping(element: string, prefix: string): FieldMapping {
+  const base = `${element}/address_info`;
+  return [
+    [`${base}/address_1`, `${prefix}_ADDRESS_1`],
+    [`${base}/address_2`, `${prefix}_ADDRESS_2`],
+    [`${base}/city`, `${prefix}_CITY`],
+    [`${base}/state_province`, `${prefix}_STATEorREGION`],
+    [`${base}/zip_postal_code`, `${prefix}_POSTCODE`],
+    [`${base}/country`, `${prefix}_COUNTRY`],
+  ];
+}
+
+const FIRM_FIELDS: FieldMapping = [
+  ["lf_tax_id", "LAW_FIRM_REGISTRATION_ID"],
+  ["lf_name", "LAW_FIRM_NAME"],
+  ...addressMapping("lf_address", "LAW_FIRM"),
+  ["lf_billing_contact_phone", "LAW_FIRM_PHONE"],
+  ["lf_billing_contact_fax", "LAW_FIRM_FAX"],
+  ["lf_billing_contact_email", "LAW_FIRM_EMAIL"],
+];
+
+const CLIENT_FIELDS: FieldMapping = [
+  ["cl_tax_id", "CLIENT_REGISTRATION_ID"],
+  ["cl_name", "CLIENT_NAME"],
+  ...addressMapping("cl_address", "CLIENT"),
+  ["cl_phone", "CLIENT_PHONE"],
+  ["cl_fax", "CLIENT_FAX"],
+  ["cl_email", "CLIENT_EMAIL"],
+];
+
+const INVOICE_FIELDS: FieldMapping = [
+  ["inv_id", "INVOICE_NUMBER"],
+  ["inv_date", "INVOICE_DATE", "date"],
+  ["inv_currency", "INVOICE_CURRENCY"],
+  ["inv_start_date", "BILLING_START_DATE", "date"],
+  ["inv_end_date", "BILLING_END_DATE", "date"],
+  ["inv_desc", "INVOICE_DESCRIPTION"],
+  ["inv_net_total", "INVOICE_NET_TOTAL"],
+  ["inv_tax_total", "INVOICE_TAX_TOTAL"],
+  ["inv_tax_currency", "INVOICE_TAX_CURRENCY"],
+  ["inv_reported_tax_total", "INVOICE_REPORTED_TAX_TOTAL"],
+  ["inv_total_net_due", "INVOICE_TOTAL"],
+];
+
+const MATTER_FIELDS: FieldMapping = [
+  ["lf_matter_id", "LAW_FIRM_MATTER_ID"],
+  ["cl_matter_id", "CLIENT_MATTER_ID"],
+];
+
+const LINE_FIELDS: FieldMapping = [
+  ["line_item_number", "LINE_ITEM_NUMBER"],
+  ["charge_date", "LINE_ITEM_DATE", "date"],
+  ["tk_id", "LINE_ITEM_LAWYER_ID"],
+  ["units", "LINE_ITEM_NUMBER_OF_UNITS"],
+  ["rate", "LINE_ITEM_UNIT_COST"],
+  ["discount_amount", "LINE_ITEM_ADJUSTMENT_AMOUNT"],
+  ["total_amount", "LINE_ITEM_TOTAL"],
+  ["description", "LINE_ITEM_DESCRIPTION"],
+  ["tax/tax_rate_percent", "LINE_ITEM_TAX_RATE", "percent"],
+  ["tax/tax_on_charge", "LINE_ITEM_TAX_TOTAL"],
+];
+
+const FEE_FIELDS: FieldMapping = [
+  ...LINE_FIELDS,
+  ["task_code", "LINE_ITEM_TASK_CODE"],
+  ["activity_code", "LINE_ITEM_ACTIVITY_CODE"],
+];
+
+const EXPENSE_FIELDS: FieldMapping = [
+  ...LINE_FIELDS,
+  ["expense_code", "LINE_ITEM_EXPENSE_TYPE"],
+  ["expense_description", "LINE_ITEM_EXP_DESCRIPTION"],
+];
+
+// LEDES XML uses ISO dates; the row model uses YYYYMMDD
+function toLedesDate(value: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : value;
+}
+
+function toXmlDate(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+}
+
+// Moves the decimal point, exactly; values that are not decimals are kept
+function shiftDecimal(value: string, places: number): string {
+  const amount = parseDecimal(value);
+  if (!amount) return value;
+
+  const scale = amount.scale - places;
+  const text =
+    scale < 0
+      ? formatMinorUnits(amount.digits * Math.pow(10, -scale), 0)
+      : formatMinorUnits(amount.digits, scale);
+  return text.includes(".") ? text.replace(/\.?0+$/, "") : text;
+}
+
+// Reads and writes a mapped value in the form its XML element takes
+const FROM_XML: Record<FieldKind, (text: string) => string> = {
+  date: toLedesDate,
+  percent: (text) => shiftDecimal(text, -2),
+};
+
+const TO_XML: Record<FieldKind, (value: string) => string> = {
+  date: toXmlDate,
+  percent: (value) => shiftDecimal(value, 2),
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(
+    (child) => child.localName === name
+  );
+}
+
+function childText(parent: Element, path: string): string {
+  let current: Element | undefined = parent;
+  for (const name of path.split("/")) {
+    current = current ? childElements(current, name)[0] : undefined;
+  }
+  return current?.textContent?.trim() ?? "";
+}
+
+function readFields(element: Element, mapping: FieldMapping): LedesRow {
+  const values: LedesRow = {};
+  mapping.forEach(([path, field, kind]) => {
+    const text = childText(element, path);
+    values[field] = kind ? FROM_XML[kind](text) : text;
+  });
+  return values;
+}
+
+function groupRows(
+  rows: LedesRow[],
+  fields: string[]
+): Array<{ first: LedesRow; rows: LedesRow[] }> {
+  const groups = new Map<string, LedesRow[]>();
+  rows.forEach((row) => {
+    const key = fields.map((field) => row[field] || "").join("|");
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return Array.from(groups.values()).map((group) => ({
+    first: group[0],
+    rows: group,
+  }));
+}
+
+class XmlWriter {
+  private lines: string[] = [];
+  private depth = 0;
+
+  open(name: string): void {
+    this.lines.push(`${this.indent()}<${name}>`);
+    this.depth++;
+  }
+
+  close(name: string): void {
+    this.depth--;
+    this.lines.push(`${this.indent()}</${name}>`);
+  }
+
+  element(name: string, value: string): void {
+    if (value === "") return;
+    this.lines.push(`${this.indent()}<${name}>${escapeXml(value)}</${name}>`);
+  }
+
+  // Writes mapped fields, opening nested elements (e.g. lf_address/address_info) as needed
+  fields(row: LedesRow, mapping: FieldMapping): void {
+    const openPath: string[] = [];
+    mapping.forEach(([path, field, kind]) => {
+      const value = row[field] || "";
+      if (value === "") return;
+
+      const parts = path.split("/");
+      const name = parts.pop() as string;
+      let common = 0;
+      while (
+        common < openPath.length &&
+        common < parts.length &&
+        openPath[common] === parts[common]
+      ) {
+        common++;
+      }
+      while (openPath.length > common) {
+        this.close(openPath.pop() as string);
+      }
+      parts.slice(common).forEach((part) => {
+        this.open(part);
+        openPath.push(part);
+      });
+
+      this.element(name, kind ? TO_XML[kind](value) : value);
+    });
+    while (openPath.length > 0) {
+      this.close(openPath.pop() as string);
+    }
+  }
+
+  toString(): string {
+    return this.lines.join("\n") + "\n";
+  }
+
+  private indent(): string {
+    return "  ".repeat(this.depth);
+  }
+}
+
+export class LedesXmlHandler {
+  static isXml(content: string): boolean {
+    return /^\s*(\uFEFF)?</.test(content);
+  }
+
+  static parseXml(content: string): LedesData {
+    const doc = new DOMParser().parseFromString(content, "application/xml");
+
+    if (doc.getElementsByTagName("parsererror").length > 0) {
+      throw new Error("File is not well-formed XML");
+    }
+
+    const root = doc.documentElement;
+    if (!/^ledesxmlebilling2\.?[01]$/i.test(root.localName)) {
+      throw new Error(
+        `Unsupported XML root element <${root.localName}>; expected LEDES XML 2.0 or 2.1`
+      );
+    }
+
+    const rows: LedesRow[] = [];
+
+    childElements(root, "firm").forEach((firm) => {
+      const firmValues = readFields(firm, FIRM_FIELDS);
+
+      childElements(firm, "client").forEach((client) => {
+        const clientValues = readFields(client, CLIENT_FIELDS);
+
+        childElements(client, "invoice").forEach((invoice) => {
+          const invoiceValues = readFields(invoice, INVOICE_FIELDS);
+
+          childElements(invoice, "matter").forEach((matter) => {
+            const matterValues = readFields(matter, MATTER_FIELDS);
+
+            // Keep fees and expenses in document order
+            const lineItems = Array.from(matter.children).filter(
+              (child) =>
+                child.localName === "fee" || child.localName === "expense"
+            );
+
+            lineItems.forEach((element) => {
+              const type = element.localName === "fee" ? "F" : "E";
+              const mapping = type === "F" ? FEE_FIELDS : EXPENSE_FIELDS;
+              const row: LedesRow = {};
+              LEDES_HEADERS.forEach((header) => {
+                row[header] = "";
+              });
+              Object.assign(
+                row,
+                firmValues,
+                clientValues,
+                invoiceValues,
+                matterValues,
+                readFields(element, mapping)
+              );
+              row["LINE_ITEM_TYPE"] =
+                childText(element, "is_adjustment").toUpperCase() === "Y"
+                  ? `I${type}`
+                  : type;
+              rows.push(row);
+            });
+          });
+        });
+      });
+    });
+
+    if (rows.length === 0) {
+      throw new Error("No fee or expense line items found in XML file");
+    }
+
+    return { headers: [...LEDES_HEADERS], rows, format: "LEDES98BI" };
+  }
+
+  static formatXml(
+    data: LedesData,
+    version: LedesXmlVersion = "2.1",
+    encoding: FileEncoding = { name: "utf-8", bom: false }
+  ): string {
+    // The XML hierarchy is defined in terms of the 98BI row model
+    const { rows } =
+      data.format === "LEDES98BI"
+        ? data
+        : LedesConverter.convert(data, "LEDES98BI").data;
+    const rootName = ROOT_ELEMENTS[version];
+    const writer = new XmlWriter();
+
+    writer.open(rootName);
+
+    groupRows(rows, ["LAW_FIRM_NAME", "LAW_FIRM_REGISTRATION_ID"]).forEach(
+      (firm) => {
+        writer.open("firm");
+        writer.fields(firm.first, FIRM_FIELDS);
+
+        groupRows(firm.rows, ["CLIENT_NAME", "CLIENT_REGISTRATION_ID"]).forEach(
+          (client) => {
+            writer.open("client");
+            writer.fields(client.first, CLIENT_FIELDS);
+
+            groupRows(client.rows, ["INVOICE_NUMBER", "INVOICE_DATE"]).forEach(
+              (invoice) => {
+                writer.open("invoice");
+                writer.fields(
+                  invoice.first,
+                  version === "2.0"
+                    ? INVOICE_FIELDS.filter(
+                        ([, field]) =>
+                          field !== "INVOICE_TAX_CURRENCY" &&
+                          field !== "INVOICE_REPORTED_TAX_TOTAL"
+                      )
+                    : INVOICE_FIELDS
+                );
+
+                groupRows(invoice.rows, [
+                  "LAW_FIRM_MATTER_ID",
+                  "CLIENT_MATTER_ID",
+                ]).forEach((matter) => {
+                  writer.open("matter");
+                  writer.fields(matter.first, MATTER_FIELDS);
+                  this.writeTimekeeperSummaries(writer, matter.rows);
+
+                  matter.rows.forEach((row) => {
+                    const type = (row["LINE_ITEM_TYPE"] || "").toUpperCase();
+                    const isExpense = type === "E" || type === "IE";
+                    const element = isExpense ? "expense" : "fee";
+
+                    writer.open(element);
+                    writer.fields(row, isExpense ? EXPENSE_FIELDS : FEE_FIELDS);
+                    if (type === "IF" || type === "IE") {
+                      writer.element("is_adjustment", "Y");
+                    }
+                    writer.close(element);
+                  });
+
+                  writer.close("matter");
+                });
+
+                writer.close("invoice");
+              }
+            );
+
+            writer.close("client");
+          }
+        );
+
+        writer.close("firm");
+      }
+    );
+
+    writer.close(rootName);
+
+    return `<?xml version="1.0" encoding="${encoding.name.toUpperCase()}"?>\n${writer.toString()}`;
+  }
+
+  static downloadFile(
+    data: LedesData,
+    filename: string = "ledes_data.xml",
+    version: LedesXmlVersion = "2.1",
+    encoding: FileEncoding = data.encoding ?? { name: "utf-8", bom: false }
+  ): void {
+    const content = this.formatXml(data, version, encoding);
+    downloadBlob(encodeText(content, encoding), filename, "application/xml");
+  }
+
+  // One <tksum> per timekeeper and rate, summarising the matter's fee lines
+  private static writeTimekeeperSummaries(
+    writer: XmlWriter,
+    rows: LedesRow[]
+  ): void {
+    const feeRows = rows.filter(
+      (row) =>
+        (row["LINE_ITEM_TYPE"] || "").toUpperCase() === "F" &&
+        row["LINE_ITEM_LAWYER_ID"]
+    );
+
+    groupRows(feeRows, ["LINE_ITEM_LAWYER_ID", "LINE_ITEM_UNIT_COST"]).forEach(
+      (timekeeper) => {
+        const sum = (field: string) =>
+          timekeeper.rows.reduce(
+            (total, row) => total + (parseFloat(row[field]) || 0),
+            0
+          );
+        // Summed in minor units, so many lines add up to the cent
+        const decimals = currencyDecimals(timekeeper.first["INVOICE_CURRENCY"]);
+        const total = timekeeper.rows.reduce((minorUnits, row) => {
+          const value = parseMoney(row["LINE_ITEM_TOTAL"] || "", {
+            decimals,
+            rounding: "half_up",
+          });
+          return value === null ? minorUnits : minorUnits + value;
+        }, 0);
+
+        writer.open("tksum");
+        writer.element("tk_id", timekeeper.first["LINE_ITEM_LAWYER_ID"]);
+        writer.element("tk_rate", timekeeper.first["LINE_ITEM_UNIT_COST"]);
+        writer.element("tk_hours", sum("LINE_ITEM_NUMBER_OF_UNITS").toFixed(2));
+        writer.element("tk_total", formatMinorUnits(total, decimals));
+        writer.close("tksum");
+      }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { LedesRow } from "./types";
+import { isUtbmsCodeSetId, UtbmsCodeSetId } from "./utbms";
+
+// Matters are identified by the law firm's matter ID in both formats
+export const MATTER_ID_FIELD = "LAW_FIRM_MATTER_ID";
+
+// Choices made for one matter; anything left out uses the profile default
+export interface MatterSettings {
+  codeSet?: UtbmsCodeSetId;
+  // ID of the billing guidelines the matter is billed under
+  guidelines?: string;
+}
+
+// Keyed by matter ID
+export type MatterSettingsMap = Record<string, MatterSettings>;
+
+const MATTER_SETTINGS_KEY = "ledes-editor:matter-settings";
+
+export function loadMatterSettings(): MatterSettingsMap {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = window.localStorage.getItem(MATTER_SETTINGS_KEY);
+    const parsed = stored ? (JSON.parse(stored) as MatterSettingsMap) : {};
+
+    // Drop code sets this build no longer bundles
+    const settings: MatterSettingsMap = {};
+    Object.entries(parsed).forEach(([matterId, matter]) => {
+      settings[matterId] = {
+        ...(isUtbmsCodeSetId(matter?.codeSet)
+          ? { codeSet: matter.codeSet }
+          : {}),
+        ...(typeof matter?.guidelines === "string"
+          ? { guidelines: matter.guidelines }
+          : {}),
+      };
+    });
+    return settings;
+  } catch {
+    return {};
+  }
+}
+
+export function saveMatterSettings(settings: MatterSettingsMap): void {
+  window.localStorage.setItem(MATTER_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Distinct matter IDs in the workspace with their row counts, in ID order
+export function matterRowCounts(rows: LedesRow[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  rows.forEach((row) => {
+    const matterId = (row[MATTER_ID_FIELD] || "").trim();
+    if (matterId) {
+      counts[matterId] = (counts[matterId] ?? 0) + 1;
+    }
+  });
+
+  const sorted: Record<string, number> = {};
+  Object.keys(counts)
+    .sort()
+    .forEach((matterId) => {
+      sorted[matterId] = counts[matterId];
+    });
+  return sorted;
+}
@@ -0,0 +1,169 @@
+/**
+ * Exact decimal arithmetic for amounts. Values are held as integers scaled
+ * by a power of ten, so sums over many lines do not pick up float error.
+ * Plain numbers rather than BigInt keep the es5 target; results are exact
+ * while they stay within Number.MAX_SAFE_INTEGER (about 90 trillion cents).
+ */
+
+export type RoundingMode = "half_up" | "half_even" | "up" | "down";
+
+export const ROUNDING_MODES: Record<RoundingMode, string> = {
+  half_up: "Half up (0.005 → 0.01)",
+  half_even: "Half even, banker's rounding",
+  up: "Away from zero",
+  down: "Towards zero (truncate)",
+};
+
+// A decimal number: digits / 10^scale
+export interface Decimal {
+  digits: number;
+  scale: number;
+}
+
+export interface MoneyContext {
+  // Digits after the decimal point in the currency's minor unit
+  decimals: number;
+  rounding: RoundingMode;
+}
+
+// ISO 4217 currencies whose minor unit is not hundredths
+const CURRENCY_DECIMALS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+export function currencyDecimals(currency: string | undefined): number {
+  return CURRENCY_DECIMALS[(currency || "").trim().toUpperCase()] ?? 2;
+}
+
+/**
+ * Parses a decimal string exactly. Like parseAmount, currency symbols and
+ * thousands separators are ignored; anything else that is not a plain
+ * decimal gives null.
+ */
+export function parseDecimal(value: string): Decimal | null {
+  const cleaned = value.replace(/[^\d.-]/g, "");
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(cleaned);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  const digits = parseInt(`${whole}${fraction}` || "0", 10);
+  return {
+    digits: sign && digits !== 0 ? -digits : digits,
+    scale: fraction.length,
+  };
+}
+
+function pow10(exponent: number): number {
+  return Math.pow(10, exponent);
+}
+
+// Divides by 10^places, rounding the dropped digits with the given mode
+function roundDigits(
+  digits: number,
+  places: number,
+  rounding: RoundingMode
+): number {
+  if (places <= 0) {
+    return digits * pow10(-places);
+  }
+
+  const divisor = pow10(places);
+  const sign = digits < 0 ? -1 : 1;
+  const magnitude = Math.abs(digits);
+  const quotient = Math.floor(magnitude / divisor);
+  const remainder = magnitude - quotient * divisor;
+  if (remainder === 0) {
+    return sign * quotient;
+  }
+
+  let roundAway: boolean;
+  switch (rounding) {
+    case "up":
+      roundAway = true;
+      break;
+    case "down":
+      roundAway = false;
+      break;
+    case "half_even":
+      roundAway =
+        remainder * 2 > divisor ||
+        (remainder * 2 === divisor && quotient % 2 === 1);
+      break;
+    default:
+      roundAway = remainder * 2 >= divisor;
+  }
+
+  return sign * (roundAway ? quotient + 1 : quotient);
+}
+
+// Amount in minor units (cents, yen, fils), rounded to the currency
+export function toMinorUnits(amount: Decimal, context: MoneyContext): number {
+  return roundDigits(
+    amount.digits,
+    amount.scale - context.decimals,
+    context.rounding
+  );
+}
+
+export function parseMoney(
+  value: string,
+  context: MoneyContext
+): number | null {
+  const amount = parseDecimal(value);
+  return amount ? toMinorUnits(amount, context) : null;
+}
+
+// Product of two decimals, e.g. units × unit cost, rounded once at the end
+export function multiplyMoney(
+  a: Decimal,
+  b: Decimal,
+  context: MoneyContext
+): number {
+  return toMinorUnits(
+    { digits: a.digits * b.digits, scale: a.scale + b.scale },
+    context
+  );
+}
+
+export function formatMinorUnits(minorUnits: number, decimals: number): string {
+  const sign = minorUnits < 0 ? "-" : "";
+  const magnitude = Math.abs(minorUnits).toString();
+  if (decimals === 0) {
+    return `${sign}${magnitude}`;
+  }
+
+  const padded = magnitude.padStart(decimals + 1, "0");
+  return `${sign}${padded.slice(0, -decimals)}.${padded.slice(-decimals)}`;
+}
+
+// A tolerance given in currency units, e.g. 0.01, as minor units
+export function toleranceInMinorUnits(
+  tolerance: number,
+  decimals: number
+): number {
+  return Math.round(Math.abs(tolerance) * pow10(decimals));
+}
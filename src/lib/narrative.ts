@@ -0,0 +1,99 @@
+import { TextRange } from "./types";
+
+/**
+ * Phrase lists for reviewing line item narratives. An entry is a phrase
+ * matched as whole words, ignoring case and extra spaces, or a regular
+ * expression written between slashes, e.g. /\bcall(s|ed)? with\b/.
+ */
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Null for an invalid expression or an empty phrase, which are skipped
+export function phrasePattern(entry: string): RegExp | null {
+  const trimmed = entry.trim();
+  const expression = /^\/(.+)\/$/.exec(trimmed);
+  if (expression) {
+    try {
+      return new RegExp(expression[1], "gi");
+    } catch {
+      return null;
+    }
+  }
+
+  const words = trimmed.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const body = words.map(escapeRegExp).join("\\s+");
+  // Word boundaries only make sense next to word characters
+  const start = /^\w/.test(words[0]) ? "\\b" : "";
+  const end = /\w$/.test(words[words.length - 1]) ? "\\b" : "";
+  return new RegExp(`${start}${body}${end}`, "gi");
+}
+
+// Rules check every row with the same few lists, so compile each list once.
+// Lists change as the user edits rule params; only the latest few are kept.
+const MAX_COMPILED_LISTS = 16;
+const compiled = new Map<string, RegExp[]>();
+
+function listPatterns(entries: string[]): RegExp[] {
+  const key = entries.join("\n");
+  let patterns = compiled.get(key);
+  if (!patterns) {
+    patterns = entries
+      .map(phrasePattern)
+      .filter((pattern): pattern is RegExp => pattern !== null);
+    if (compiled.size >= MAX_COMPILED_LISTS) {
+      // Maps iterate in insertion order, so this is the oldest list
+      compiled.delete(compiled.keys().next().value as string);
+    }
+    compiled.set(key, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Where any entry of the list occurs in the text, in text order. Overlapping
+ * matches are merged into one range.
+ */
+export function findPhrases(text: string, entries: string[]): TextRange[] {
+  const ranges: TextRange[] = [];
+  listPatterns(entries).forEach((pattern) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0] === "") {
+        pattern.lastIndex++; // An expression that can match nothing
+        continue;
+      }
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+  });
+  return mergeTextRanges(ranges);
+}
+
+// Sorted, with overlapping and touching ranges joined
+export function mergeTextRanges(ranges: TextRange[]): TextRange[] {
+  const merged: TextRange[] = [];
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .forEach((range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    });
+  return merged;
+}
+
+// The matched text of each range, lowercased and without repeats
+export function matchedPhrases(text: string, ranges: TextRange[]): string[] {
+  const phrases: string[] = [];
+  ranges.forEach(({ start, end }) => {
+    const phrase = text.slice(start, end).toLowerCase().replace(/\s+/g, " ");
+    if (!phrases.includes(phrase)) phrases.push(phrase);
+  });
+  return phrases;
+}
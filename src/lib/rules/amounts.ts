@@ -0,0 +1,59 @@
+import {
+  currencyDecimals,
+  MoneyContext,
+  ROUNDING_MODES,
+  RoundingMode,
+  toleranceInMinorUnits,
+} from "../money";
+import { RuleParamValues, ValidationRuleParam } from "../validationRules";
+
+// Shared by every rule that compares a stated amount with a calculated one
+export const MONEY_PARAMS: ValidationRuleParam[] = [
+  {
+    key: "tolerance",
+    label: "Rounding tolerance",
+    type: "number",
+    default: 0.01,
+    min: 0,
+    step: 0.01,
+    description:
+      "Largest difference still treated as rounding, in units of the invoice currency",
+  },
+  {
+    key: "rounding",
+    label: "Rounding mode",
+    type: "choice",
+    default: "half_up",
+    options: ROUNDING_MODES,
+    description:
+      "How calculated amounts are rounded to the currency's precision",
+  },
+];
+
+// Precision of the invoice currency, with the rule's rounding mode
+export function moneyContext(
+  params: RuleParamValues,
+  currency: string
+): MoneyContext {
+  const rounding = params.rounding as RoundingMode;
+  return {
+    decimals: currencyDecimals(currency),
+    rounding: Object.prototype.hasOwnProperty.call(ROUNDING_MODES, rounding)
+      ? rounding
+      : "half_up",
+  };
+}
+
+// Whether two amounts in minor units differ by more than the tolerance
+export function exceedsTolerance(
+  stated: number,
+  calculated: number,
+  params: RuleParamValues,
+  context: MoneyContext
+): boolean {
+  const tolerance = toleranceInMinorUnits(
+    (params.tolerance as number) ?? 0,
+    context.decimals
+  );
+  return Math.abs(stated - calculated) > tolerance;
+}
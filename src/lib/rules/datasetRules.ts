@@ -0,0 +1,755 @@
+import { InvoiceGroup } from "../invoices";
+import { getFieldSpec, LedesFieldSpec } from "../ledesFields";
+import { formatMinorUnits, MoneyContext, parseMoney } from "../money";
+import { ValidationFix } from "../types";
+import {
+  DatasetIssue,
+  DatasetRule,
+  DatasetView,
+  RuleParamValues,
+} from "../validationRules";
+import { exceedsTolerance, MONEY_PARAMS, moneyContext } from "./amounts";
+
+// Rows may have been inserted or deleted since parsing; locate them by file and line
+function rowsByLine(data: DatasetView): Record<string, number> {
+  const rowByLine: Record<string, number> = {};
+  data.sources?.forEach((source, rowIndex) => {
+    if (source.line !== undefined) {
+      rowByLine[`${source.file ?? ""}:${source.line}`] = rowIndex + 1;
+    }
+  });
+  return rowByLine;
+}
+
+// Sets one field to the same value on the given 1-based rows
+function setField(
+  label: string,
+  field: string,
+  value: string,
+  rows: number[]
+): ValidationFix {
+  return { label, changes: rows.map((row) => ({ row, field, value })) };
+}
+
+// Numbers an invoice's lines 1 to N in row order, like renumberLineItems
+function renumberFix(
+  dataset: string[][],
+  lineItemNumberIndex: number,
+  invoice: InvoiceGroup
+): ValidationFix {
+  const changes = invoice.rowIndexes
+    .map((rowIndex, position) => ({
+      row: rowIndex + 1,
+      field: "LINE_ITEM_NUMBER",
+      value: String(position + 1),
+    }))
+    .filter(
+      (change) =>
+        (dataset[change.row - 1][lineItemNumberIndex] || "") !== change.value
+    );
+  return { label: "Renumber the invoice's lines", changes };
+}
+
+interface InvoiceAmounts {
+  context: MoneyContext;
+  // Invoice-level value, taken from the invoice's first row
+  value(field: string): string;
+  // Invoice-level amount in minor units, null when empty or invalid
+  amount(field: string): number | null;
+  // Sum over the invoice's lines of one field, less another if given
+  sumLines(
+    field: string,
+    subtractField?: string
+  ): { sum: number; validLines: number };
+  format(minorUnits: number): string;
+  affectedRows: number[];
+}
+
+/**
+ * Reads an invoice's amounts in minor units of the invoice currency. Invoice
+ * fields should match across rows; invoice_consistency checks the totals.
+ */
+function invoiceAmounts(
+  data: DatasetView,
+  invoice: InvoiceGroup,
+  params: RuleParamValues,
+  currencyField = "INVOICE_CURRENCY"
+): InvoiceAmounts {
+  const { dataset, headers } = data;
+  const cell = (rowIndex: number, field: string) => {
+    const index = headers.indexOf(field);
+    return index === -1 ? "" : dataset[rowIndex][index] || "";
+  };
+  const firstRow = invoice.rowIndexes[0];
+  const context = moneyContext(params, cell(firstRow, currencyField));
+
+  return {
+    context,
+    value: (field) => cell(firstRow, field),
+    amount: (field) => parseMoney(cell(firstRow, field), context),
+    sumLines(field, subtractField) {
+      let sum = 0;
+      let validLines = 0;
+      invoice.rowIndexes.forEach((rowIndex) => {
+        const value = parseMoney(cell(rowIndex, field), context);
+        if (value !== null) {
+          const subtract = subtractField
+            ? parseMoney(cell(rowIndex, subtractField), context) ?? 0
+            : 0;
+          sum += value - subtract;
+          validLines++;
+        }
+      });
+      return { sum, validLines };
+    },
+    format: (minorUnits) => formatMinorUnits(minorUnits, context.decimals),
+    affectedRows: invoice.rowIndexes.map((rowIndex) => rowIndex + 1),
+  };
+}
+
+/**
+ * Compares an invoice-level total with the sum of a field over its lines.
+ * Lines with an empty or invalid value are left out, and an invoice without
+ * any valid line is not checked.
+ */
+function checkInvoiceSum(
+  data: DatasetView,
+  params: RuleParamValues,
+  check: {
+    totalField: string;
+    label: string;
+    lineField: string;
+    lineLabel: string;
+    subtractField?: string;
+  }
+): DatasetIssue[] {
+  const { headers } = data;
+  const issues: DatasetIssue[] = [];
+
+  // Check if we have the required fields
+  if (
+    headers.indexOf(check.totalField) === -1 ||
+    headers.indexOf(check.lineField) === -1
+  ) {
+    return issues;
+  }
+
+  data.invoices.forEach((invoice) => {
+    const amounts = invoiceAmounts(data, invoice, params);
+    const statedMinor = amounts.amount(check.totalField);
+    if (statedMinor === null) {
+      return; // Empty and invalid totals are caught by field validation
+    }
+
+    const { sum, validLines } = amounts.sumLines(
+      check.lineField,
+      check.subtractField
+    );
+    if (
+      validLines > 0 &&
+      exceedsTolerance(statedMinor, sum, params, amounts.context)
+    ) {
+      issues.push({
+        invoice_identifier: invoice.identifier,
+        error: `${check.label} (${amounts.format(
+          statedMinor
+        )}) does not equal sum of ${check.lineLabel} (${amounts.format(sum)})`,
+        affected_rows: amounts.affectedRows,
+        params: {
+          stated: amounts.value(check.totalField),
+          calculated: amounts.format(sum),
+        },
+        fix: setField(
+          `Set ${check.label.toLowerCase()} to ${amounts.format(sum)}`,
+          check.totalField,
+          amounts.format(sum),
+          amounts.affectedRows
+        ),
+      });
+    }
+  });
+
+  return issues;
+}
+
+export const DATASET_RULES: DatasetRule[] = [
+  {
+    id: "malformed_record",
+    scope: "dataset",
+    title: "Malformed record",
+    description: "Record had too few or too many fields when parsed",
+    severity: "warning",
+    check(data) {
+      if (!data.parseReport) return [];
+      const rowByLine = rowsByLine(data);
+      const issues: DatasetIssue[] = [];
+
+      data.parseReport.field_count_mismatches.forEach((mismatch) => {
+        const row = rowByLine[`${mismatch.file ?? ""}:${mismatch.line}`];
+        if (row === undefined) {
+          return; // Row has since been deleted
+        }
+
+        issues.push({
+          invoice_identifier: mismatch.file
+            ? `${mismatch.file} line ${mismatch.line}`
+            : `Line ${mismatch.line}`,
+          error:
+            mismatch.actual < mismatch.expected
+              ? `Record has ${mismatch.actual} fields, expected ${mismatch.expected}; missing fields were left empty`
+              : `Record has ${mismatch.actual} fields, expected ${mismatch.expected}; extra fields were dropped`,
+          affected_rows: [row],
+          params: { expected: mismatch.expected, actual: mismatch.actual },
+        });
+      });
+
+      return issues;
+    },
+  },
+  {
+    id: "duplicate_header",
+    scope: "dataset",
+    title: "Duplicate header",
+    description: "A header appears more than once in the file",
+    severity: "warning",
+    check(data) {
+      return (data.parseReport?.duplicate_headers ?? []).map((duplicate) => ({
+        invoice_identifier: duplicate.file
+          ? `${duplicate.file} header ${duplicate.field}`
+          : `Header ${duplicate.field}`,
+        error: `Header ${
+          duplicate.field
+        } appears in columns ${duplicate.columns.join(
+          ", "
+        )}; only the last column's values were kept`,
+        affected_rows: [],
+        params: {
+          field: duplicate.field,
+          columns: duplicate.columns.join(", "),
+        },
+      }));
+    },
+  },
+  {
+    id: "invoice_consistency",
+    scope: "dataset",
+    title: "Invoice field consistency",
+    description:
+      "Rows of one invoice disagree on an invoice-level field such as the total, matter or address",
+    severity: "error",
+    perInvoice: true,
+    check({ dataset, headers, invoices }) {
+      const invoiceFields = headers
+        .map((header) => getFieldSpec(header))
+        .filter((spec): spec is LedesFieldSpec => spec?.level === "invoice");
+      const currencyIndex = headers.indexOf("INVOICE_CURRENCY");
+      const issues: DatasetIssue[] = [];
+
+      invoices.forEach((invoice) => {
+        if (invoice.rowIndexes.length <= 1) {
+          return; // Single row invoices are automatically consistent
+        }
+
+        // Amounts compare by value, so 100 and 100.00 agree
+        const context = moneyContext(
+          {},
+          dataset[invoice.rowIndexes[0]][currencyIndex] || ""
+        );
+
+        invoiceFields.forEach((spec) => {
+          const field = spec.name;
+          const index = headers.indexOf(field);
+
+          // Rows per distinct value, in order of first appearance
+          const groups: { value: string; rows: number[] }[] = [];
+          const byKey: Record<string, { value: string; rows: number[] }> = {};
+          invoice.rowIndexes.forEach((rowIndex) => {
+            const value = (dataset[rowIndex][index] || "").trim();
+            const amount =
+              spec.type === "amount" ? parseMoney(value, context) : null;
+            const key = amount !== null ? `#${amount}` : value;
+            if (!byKey[key]) {
+              byKey[key] = { value, rows: [] };
+              groups.push(byKey[key]);
+            }
+            byKey[key].rows.push(rowIndex + 1);
+          });
+
+          if (groups.length <= 1) {
+            return;
+          }
+
+          // Most common value wins; ties go to the earliest row
+          const majority = groups.reduce((best, group) =>
+            group.rows.length > best.rows.length ? group : best
+          );
+          const outliers = groups.filter((group) => group !== majority);
+          const outlierRows = outliers
+            .reduce<number[]>((rows, group) => rows.concat(group.rows), [])
+            .sort((a, b) => a - b);
+          const show = (value: string) => (value ? `"${value}"` : "empty");
+          const outlierText = outliers
+            .map(
+              (group) =>
+                `${group.rows.length > 1 ? "rows" : "row"} ${group.rows.join(
+                  ", "
+                )} ${group.rows.length > 1 ? "have" : "has"} ${show(
+                  group.value
+                )}`
+            )
+            .join("; ");
+
+          issues.push({
+            invoice_identifier: invoice.identifier,
+            error: `${spec.label} differs within the invoice: ${
+              majority.rows.length
+            } of ${invoice.rowIndexes.length} rows have ${show(
+              majority.value
+            )}, but ${outlierText}`,
+            affected_rows: outlierRows,
+            params: {
+              field,
+              majority_value: majority.value,
+              outlier_rows: outlierRows.join(", "),
+            },
+            ...(majority.value
+              ? {
+                  fix: setField(
+                    `Set to "${majority.value}"`,
+                    field,
+                    majority.value,
+                    outlierRows
+                  ),
+                }
+              : {}),
+          });
+        });
+      });
+
+      return issues;
+    },
+  },
+  {
+    id: "line_item_uniqueness",
+    scope: "dataset",
+    title: "Line item uniqueness",
+    description: "Line item number is used more than once within an invoice",
+    severity: "error",
+    perInvoice: true,
+    check({ dataset, headers, invoices }) {
+      const lineItemNumberIndex = headers.indexOf("LINE_ITEM_NUMBER");
+      if (lineItemNumberIndex === -1) return [];
+
+      // Each invoice numbers its own lines, so only compare within one
+      const issues: DatasetIssue[] = [];
+      invoices.forEach((invoice) => {
+        const lineItemNumbers: Record<string, number[]> = {};
+        invoice.rowIndexes.forEach((rowIndex) => {
+          const lineItemNumber = (
+            dataset[rowIndex][lineItemNumberIndex] || ""
+          ).trim();
+          if (lineItemNumber !== "") {
+            (lineItemNumbers[lineItemNumber] ??= []).push(rowIndex + 1);
+          }
+        });
+
+        Object.entries(lineItemNumbers)
+          .filter(([, rowNumbers]) => rowNumbers.length > 1)
+          .forEach(([lineItemNumber, rowNumbers]) => {
+            issues.push({
+              invoice_identifier:
+                invoice.identifier || `LINE_ITEM_NUMBER=${lineItemNumber}`,
+              error: `Line item number ${lineItemNumber} is not unique within the invoice (rows ${rowNumbers.join(
+                ", "
+              )})`,
+              affected_rows: rowNumbers,
+              params: {
+                field: "LINE_ITEM_NUMBER",
+                line_item_number: lineItemNumber,
+              },
+              fix: renumberFix(dataset, lineItemNumberIndex, invoice),
+            });
+          });
+      });
+      return issues;
+    },
+  },
+  {
+    id: "line_item_sequence",
+    scope: "dataset",
+    title: "Line item sequence",
+    description:
+      "Line item numbers within an invoice do not run 1, 2, 3... without gaps",
+    severity: "warning",
+    perInvoice: true,
+    optional: true,
+    params: [
+      {
+        key: "in_row_order",
+        label: "Follow row order",
+        type: "boolean",
+        default: true,
+        description:
+          "Line n of an invoice must be its nth row, not just somewhere in it",
+      },
+    ],
+    check({ dataset, headers, invoices }, params) {
+      const lineItemNumberIndex = headers.indexOf("LINE_ITEM_NUMBER");
+      if (lineItemNumberIndex === -1) return [];
+
+      const issues: DatasetIssue[] = [];
+      invoices.forEach((invoice) => {
+        // Empty numbers are left to required-field validation
+        const lines = invoice.rowIndexes
+          .map((rowIndex, position) => ({
+            row: rowIndex + 1,
+            expected: position + 1,
+            value: (dataset[rowIndex][lineItemNumberIndex] || "").trim(),
+          }))
+          .filter((line) => line.value !== "");
+        const lineCount = invoice.rowIndexes.length;
+
+        if (params.in_row_order) {
+          const outOfSequence = lines.filter(
+            (line) => line.value !== String(line.expected)
+          );
+          if (outOfSequence.length === 0) return;
+
+          const [first] = outOfSequence;
+          issues.push({
+            invoice_identifier: invoice.identifier,
+            error: `Line item numbers do not run 1 to ${lineCount} in row order: row ${
+              first.row
+            } is line ${first.value}, expected ${first.expected}${
+              outOfSequence.length > 1
+                ? ` (${outOfSequence.length} rows out of sequence)`
+                : ""
+            }`,
+            affected_rows: outOfSequence.map((line) => line.row),
+            params: {
+              field: "LINE_ITEM_NUMBER",
+              rows: outOfSequence.map((line) => line.row).join(", "),
+            },
+            fix: renumberFix(dataset, lineItemNumberIndex, invoice),
+          });
+          return;
+        }
+
+        // Otherwise only the set of numbers matters; duplicates are reported
+        // by line_item_uniqueness
+        const used = new Set(
+          lines
+            .map((line) => line.value)
+            .filter((value) => /^\d+$/.test(value))
+            .map((value) => parseInt(value, 10))
+        );
+        const missing: number[] = [];
+        for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
+          if (!used.has(lineNumber)) missing.push(lineNumber);
+        }
+        if (missing.length === 0) return;
+
+        const unexpected = lines.filter(
+          (line) =>
+            !/^\d+$/.test(line.value) || parseInt(line.value, 10) > lineCount
+        );
+        issues.push({
+          invoice_identifier: invoice.identifier,
+          error: `Line item numbers skip ${missing.join(
+            ", "
+          )} (expected 1 to ${lineCount})`,
+          affected_rows: unexpected.map((line) => line.row),
+          params: {
+            field: "LINE_ITEM_NUMBER",
+            missing: missing.join(", "),
+          },
+          fix: renumberFix(dataset, lineItemNumberIndex, invoice),
+        });
+      });
+      return issues;
+    },
+  },
+  {
+    id: "invoice_net_total_calculation",
+    scope: "dataset",
+    title: "Invoice net total",
+    description:
+      "Invoice net total is not the sum of line totals less line tax",
+    severity: "error",
+    perInvoice: true,
+    params: MONEY_PARAMS,
+    check(data, params) {
+      // 98BI line totals include tax, which the net total does not
+      const hasTax = data.headers.includes("LINE_ITEM_TAX_TOTAL");
+      return checkInvoiceSum(data, params, {
+        totalField: "INVOICE_NET_TOTAL",
+        label: "Invoice net total",
+        lineField: "LINE_ITEM_TOTAL",
+        lineLabel: hasTax
+          ? "line item totals excluding tax"
+          : "line item totals",
+        subtractField: hasTax ? "LINE_ITEM_TAX_TOTAL" : undefined,
+      });
+    },
+  },
+  {
+    id: "invoice_total_calculation",
+    scope: "dataset",
+    title: "Invoice total",
+    description: "Invoice total is not the sum of line totals",
+    severity: "error",
+    perInvoice: true,
+    params: MONEY_PARAMS,
+    check(data, params) {
+      return checkInvoiceSum(data, params, {
+        totalField: "INVOICE_TOTAL",
+        label: "Invoice total",
+        lineField: "LINE_ITEM_TOTAL",
+        lineLabel: "line item totals",
+      });
+    },
+  },
+  {
+    id: "invoice_tax_total_calculation",
+    scope: "dataset",
+    title: "Invoice tax total",
+    description: "Invoice tax total is not the sum of line item taxes",
+    severity: "error",
+    perInvoice: true,
+    params: MONEY_PARAMS,
+    check(data, params) {
+      const { headers } = data;
+      if (
+        !headers.includes("INVOICE_TAX_TOTAL") ||
+        !headers.includes("LINE_ITEM_TAX_TOTAL")
+      ) {
+        return [];
+      }
+
+      const issues: DatasetIssue[] = [];
+      data.invoices.forEach((invoice) => {
+        const amounts = invoiceAmounts(data, invoice, params);
+        const statedMinor = amounts.amount("INVOICE_TAX_TOTAL");
+        if (statedMinor === null) return;
+
+        // Lines without tax count as zero, so tax with no taxed line is caught
+        const { sum } = amounts.sumLines("LINE_ITEM_TAX_TOTAL");
+        if (exceedsTolerance(statedMinor, sum, params, amounts.context)) {
+          issues.push({
+            invoice_identifier: invoice.identifier,
+            error: `Invoice tax total (${amounts.format(
+              statedMinor
+            )}) does not equal sum of line item taxes (${amounts.format(sum)})`,
+            affected_rows: amounts.affectedRows,
+            params: {
+              stated: amounts.value("INVOICE_TAX_TOTAL"),
+              calculated: amounts.format(sum),
+            },
+          });
+        }
+      });
+      return issues;
+    },
+  },
+  {
+    id: "invoice_total_net_plus_tax",
+    scope: "dataset",
+    title: "Invoice total vs net and tax",
+    description: "Invoice total is not the net total plus the tax total",
+    severity: "error",
+    perInvoice: true,
+    params: MONEY_PARAMS,
+    check(data, params) {
+      const { headers } = data;
+      if (
+        !headers.includes("INVOICE_TOTAL") ||
+        !headers.includes("INVOICE_NET_TOTAL")
+      ) {
+        return [];
+      }
+
+      const issues: DatasetIssue[] = [];
+      data.invoices.forEach((invoice) => {
+        const amounts = invoiceAmounts(data, invoice, params);
+        const totalMinor = amounts.amount("INVOICE_TOTAL");
+        const netMinor = amounts.amount("INVOICE_NET_TOTAL");
+        if (totalMinor === null || netMinor === null) return;
+
+        const taxMinor = amounts.amount("INVOICE_TAX_TOTAL") ?? 0;
+        const expected = netMinor + taxMinor;
+        if (exceedsTolerance(totalMinor, expected, params, amounts.context)) {
+          issues.push({
+            invoice_identifier: invoice.identifier,
+            error: `Invoice total (${amounts.format(
+              totalMinor
+            )}) does not equal net total plus tax total (${amounts.format(
+              netMinor
+            )} + ${amounts.format(taxMinor)} = ${amounts.format(expected)})`,
+            affected_rows: amounts.affectedRows,
+            params: {
+              stated: amounts.value("INVOICE_TOTAL"),
+              calculated: amounts.format(expected),
+            },
+            fix: setField(
+              `Set invoice total to ${amounts.format(expected)}`,
+              "INVOICE_TOTAL",
+              amounts.format(expected),
+              amounts.affectedRows
+            ),
+          });
+        }
+      });
+      return issues;
+    },
+  },
+  {
+    id: "reported_tax_total",
+    scope: "dataset",
+    title: "Reported tax total",
+    description:
+      "Reported tax total differs from the invoice tax, when both are in the same currency",
+    severity: "error",
+    perInvoice: true,
+    params: MONEY_PARAMS,
+    check(data, params) {
+      const { headers } = data;
+      if (!headers.includes("INVOICE_REPORTED_TAX_TOTAL")) return [];
+
+      const issues: DatasetIssue[] = [];
+      data.invoices.forEach((invoice) => {
+        const amounts = invoiceAmounts(data, invoice, params);
+        const reportedMinor = amounts.amount("INVOICE_REPORTED_TAX_TOTAL");
+        if (reportedMinor === null) return;
+
+        // Tax reported in another currency has been converted; tax_currency covers it
+        const invoiceCurrency = amounts.value("INVOICE_CURRENCY").trim();
+        const taxCurrency = amounts.value("INVOICE_TAX_CURRENCY").trim();
+        if (
+          invoiceCurrency &&
+          taxCurrency &&
+          invoiceCurrency.toUpperCase() !== taxCurrency.toUpperCase()
+        ) {
+          return;
+        }
+
+        const invoiceTax = amounts.amount("INVOICE_TAX_TOTAL");
+        if (invoiceTax === null && !headers.includes("LINE_ITEM_TAX_TOTAL")) {
+          return;
+        }
+        const [expected, label] =
+          invoiceTax !== null
+            ? [invoiceTax, "invoice tax total"]
+            : [
+                amounts.sumLines("LINE_ITEM_TAX_TOTAL").sum,
+                "sum of line item taxes",
+              ];
+
+        if (
+          exceedsTolerance(reportedMinor, expected, params, amounts.context)
+        ) {
+          issues.push({
+            invoice_identifier: invoice.identifier,
+            error: `Reported tax total (${amounts.format(
+              reportedMinor
+            )}) does not equal ${label} (${amounts.format(expected)})`,
+            affected_rows: amounts.affectedRows,
+            params: {
+              stated: amounts.value("INVOICE_REPORTED_TAX_TOTAL"),
+              calculated: amounts.format(expected),
+            },
+          });
+        }
+      });
+      return issues;
+    },
+  },
+  {
+    id: "tax_currency",
+    scope: "dataset",
+    title: "Tax currency",
+    description:
+      "Tax currency differs from the invoice currency but no reported tax total is given",
+    severity: "error",
+    perInvoice: true,
+    check(data) {
+      const { headers } = data;
+      if (!headers.includes("INVOICE_TAX_CURRENCY")) return [];
+
+      const issues: DatasetIssue[] = [];
+      data.invoices.forEach((invoice) => {
+        const amounts = invoiceAmounts(data, invoice, {});
+        const invoiceCurrency = amounts.value("INVOICE_CURRENCY").trim();
+        const taxCurrency = amounts.value("INVOICE_TAX_CURRENCY").trim();
+        if (
+          !invoiceCurrency ||
+          !taxCurrency ||
+          invoiceCurrency.toUpperCase() === taxCurrency.toUpperCase()
+        ) {
+          return;
+        }
+
+        // Untaxed invoices have nothing to report
+        const tax =
+          amounts.amount("INVOICE_TAX_TOTAL") ??
+          amounts.sumLines("LINE_ITEM_TAX_TOTAL").sum;
+        if (tax === 0 || amounts.value("INVOICE_REPORTED_TAX_TOTAL").trim()) {
+          return;
+        }
+
+        issues.push({
+          invoice_identifier: invoice.identifier,
+          error: `Tax currency ${taxCurrency} differs from invoice currency ${invoiceCurrency}, but no reported tax total in ${taxCurrency} is given`,
+          affected_rows: amounts.affectedRows,
+          params: {
+            invoice_currency: invoiceCurrency,
+            tax_currency: taxCurrency,
+          },
+        });
+      });
+      return issues;
+    },
+  },
+  {
+    id: "duplicate_invoice_across_files",
+    scope: "dataset",
+    title: "Invoice in several files",
+    description: "The same invoice number appears in more than one file",
+    severity: "warning",
+    check({ dataset, headers, sources }) {
+      const invoiceNumberIndex = headers.indexOf("INVOICE_NUMBER");
+      if (invoiceNumberIndex === -1 || !sources) return [];
+
+      // Rows and files per invoice number
+      const invoices: Record<string, { rows: number[]; files: Set<string> }> =
+        {};
+      dataset.forEach((rowData, rowIndex) => {
+        const invoiceNumber = (rowData[invoiceNumberIndex] || "").trim();
+        const file = sources[rowIndex]?.file;
+        if (!invoiceNumber || !file) {
+          return;
+        }
+
+        if (!invoices[invoiceNumber]) {
+          invoices[invoiceNumber] = { rows: [], files: new Set() };
+        }
+        invoices[invoiceNumber].rows.push(rowIndex + 1);
+        invoices[invoiceNumber].files.add(file);
+      });
+
+      // The same invoice in two files is usually a file loaded twice or a reused number
+      return Object.entries(invoices)
+        .filter(([, { files }]) => files.size > 1)
+        .map(([invoiceNumber, { rows, files }]) => ({
+          invoice_identifier: `INVOICE_NUMBER=${invoiceNumber}`,
+          error: `Invoice ${invoiceNumber} appears in ${
+            files.size
+          } files: ${Array.from(files).join(", ")}`,
+          affected_rows: rows,
+          params: {
+            invoice_number: invoiceNumber,
+            files: Array.from(files).join(", "),
+          },
+        }));
+    },
+  },
+];
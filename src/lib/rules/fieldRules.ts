@@ -0,0 +1,332 @@
+import {
+  isAlwaysRequired,
+  isFieldRequired,
+  LINE_ITEM_TYPES,
+  LineItemType,
+} from "../ledesFields";
+import { normalizeDate } from "../utils";
+import { FieldCell, FieldRule } from "../validationRules";
+
+const VALID_STATE_CODES = [
+  "AL",
+  "AK",
+  "AZ",
+  "AR",
+  "CA",
+  "CO",
+  "CT",
+  "DE",
+  "FL",
+  "GA",
+  "HI",
+  "ID",
+  "IL",
+  "IN",
+  "IA",
+  "KS",
+  "KY",
+  "LA",
+  "ME",
+  "MD",
+  "MA",
+  "MI",
+  "MN",
+  "MS",
+  "MO",
+  "MT",
+  "NE",
+  "NV",
+  "NH",
+  "NJ",
+  "NM",
+  "NY",
+  "NC",
+  "ND",
+  "OH",
+  "OK",
+  "OR",
+  "PA",
+  "RI",
+  "SC",
+  "SD",
+  "TN",
+  "TX",
+  "UT",
+  "VT",
+  "VA",
+  "WA",
+  "WV",
+  "WI",
+  "WY",
+  "DC",
+];
+
+function joinOr(values: string[]): string {
+  return values.length > 1
+    ? `${values.slice(0, -1).join(", ")} or ${values[values.length - 1]}`
+    : values.join("");
+}
+
+export function isValidDate(value: string): boolean {
+  if (!/^\d{8}$/.test(value)) {
+    return false;
+  }
+
+  const year = parseInt(value.substring(0, 4));
+  const month = parseInt(value.substring(4, 6));
+  const day = parseInt(value.substring(6, 8));
+  const date = new Date(year, month - 1, day);
+
+  return (
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+  );
+}
+
+export function parseDate(dateStr: string): Date {
+  const year = parseInt(dateStr.substring(0, 4));
+  const month = parseInt(dateStr.substring(4, 6));
+  const day = parseInt(dateStr.substring(6, 8));
+  return new Date(year, month - 1, day);
+}
+
+// Start of the current local day, comparable with parseDate results
+export function today(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+// Lenient amount parsing: currency symbols and thousands separators are ignored
+export function parseAmount(value: string): number {
+  return parseFloat(value.replace(/[^\d.-]/g, ""));
+}
+
+function hasType(cell: FieldCell, ...types: string[]): boolean {
+  return !!cell.spec && types.includes(cell.spec.type);
+}
+
+export const FIELD_RULES: FieldRule[] = [
+  {
+    id: "required_field",
+    scope: "field",
+    title: "Required field",
+    description:
+      "A field the line item type requires is empty, per the field dictionary",
+    severity: "error",
+    checksEmpty: true,
+    check(cell) {
+      const { spec, value, lineType } = cell;
+      if ((value && value.trim() !== "") || !spec) {
+        return null;
+      }
+
+      if (!isFieldRequired(spec, cell.format, lineType)) {
+        return null;
+      }
+
+      const type = lineType.trim().toUpperCase() as LineItemType;
+      return isAlwaysRequired(spec)
+        ? { error: `${spec.label} is required` }
+        : {
+            error: `${spec.label} is required for ${LINE_ITEM_TYPES[type]} line items (${type})`,
+            params: { line_type: type },
+          };
+    },
+  },
+  {
+    id: "allowed_values",
+    scope: "field",
+    title: "Allowed values",
+    description: "Value is not one of the field's codes",
+    severity: "error",
+    check({ spec, value }) {
+      if (!spec?.allowedValues) return null;
+      const allowed = Object.keys(spec.allowedValues);
+      if (allowed.includes(value)) return null;
+
+      // Codes are uppercase; offer the code a lowercase or padded value means
+      const code = value.trim().toUpperCase();
+      return {
+        error: `${spec.label} must be ${joinOr(allowed)}`,
+        params: { allowed: allowed.join(", ") },
+        ...(allowed.includes(code)
+          ? { fix: { label: `Change to ${code}`, value: code } }
+          : {}),
+      };
+    },
+  },
+  {
+    id: "invalid_date",
+    scope: "field",
+    title: "Date format",
+    description: "Date is not a real date in YYYYMMDD form",
+    severity: "error",
+    check(cell) {
+      if (!hasType(cell, "date")) return null;
+      if (!/^\d{8}$/.test(cell.value)) {
+        const date = normalizeDate(cell.value.trim());
+        return {
+          error: "Date must be in YYYYMMDD format",
+          ...(isValidDate(date)
+            ? { fix: { label: `Change to ${date}`, value: date } }
+            : {}),
+        };
+      }
+      return isValidDate(cell.value) ? null : { error: "Invalid date" };
+    },
+  },
+  {
+    id: "future_date",
+    scope: "field",
+    title: "Future date",
+    description: "Date is later than today",
+    severity: "error",
+    check({ spec, value }) {
+      if (spec?.type !== "date" || !isValidDate(value)) return null;
+      if (parseDate(value) <= today()) return null;
+      return {
+        error: `${spec.label} ${value} is in the future`,
+        params: { date: value },
+      };
+    },
+  },
+  {
+    id: "invalid_number",
+    scope: "field",
+    title: "Number format",
+    description: "Amount, quantity or line number is not a number",
+    severity: "error",
+    check(cell) {
+      const { value } = cell;
+      if (hasType(cell, "integer")) {
+        const intValue = parseInt(value);
+        return isNaN(intValue) || intValue.toString() !== value
+          ? { error: "Must be a whole number" }
+          : null;
+      }
+      if (hasType(cell, "amount", "decimal")) {
+        return isNaN(parseFloat(value))
+          ? { error: "Invalid decimal number" }
+          : null;
+      }
+      return null;
+    },
+  },
+  {
+    id: "invalid_currency",
+    scope: "field",
+    title: "Currency code",
+    description: "Currency is not a 3-letter ISO 4217 code",
+    severity: "error",
+    check(cell) {
+      // Must be exactly 3 letters (ISO 4217 currency code format)
+      if (!hasType(cell, "currency") || /^[A-Z]{3}$/i.test(cell.value)) {
+        return null;
+      }
+      return {
+        error: "Currency must be a 3-letter code (e.g., USD, EUR, GBP)",
+      };
+    },
+  },
+  {
+    id: "invalid_email",
+    scope: "field",
+    title: "Email address",
+    description: "Email address does not look valid",
+    severity: "warning",
+    check(cell) {
+      if (
+        !hasType(cell, "email") ||
+        /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(cell.value)
+      ) {
+        return null;
+      }
+      return { error: "Invalid email address" };
+    },
+  },
+  {
+    id: "invalid_postcode",
+    scope: "field",
+    title: "Postcode",
+    description: "Postcode does not match any common format",
+    severity: "warning",
+    check(cell) {
+      // Allow various postcode formats (US ZIP, UK, Canadian, etc.)
+      if (
+        !hasType(cell, "postcode") ||
+        /^[A-Z0-9\-\s]{3,10}$/i.test(cell.value)
+      ) {
+        return null;
+      }
+      return { error: "Invalid postcode format" };
+    },
+  },
+  {
+    id: "invalid_region",
+    scope: "field",
+    title: "State or region",
+    description: "State or region is neither a US state code nor a name",
+    severity: "warning",
+    check(cell) {
+      // Allow US state codes or any reasonable region name
+      if (
+        !hasType(cell, "region") ||
+        VALID_STATE_CODES.includes(cell.value.toUpperCase()) ||
+        /^[A-Z\s]{2,50}$/i.test(cell.value)
+      ) {
+        return null;
+      }
+      return { error: "Invalid state or region format" };
+    },
+  },
+  {
+    id: "invalid_text",
+    scope: "field",
+    title: "Text content",
+    description:
+      "Text contains a pipe character, which would break the record, or is unreasonably long",
+    severity: "error",
+    params: [
+      {
+        key: "max_length",
+        label: "Maximum length",
+        type: "number",
+        default: 1000,
+        min: 1,
+        description: "For fields without a length of their own",
+      },
+    ],
+    check(cell, params) {
+      if (cell.spec && !hasType(cell, "text", "code")) return null;
+
+      // Check for pipe characters (not allowed in LEDES format)
+      if (cell.value.includes("|")) {
+        return { error: "Pipe character (|) not allowed" };
+      }
+
+      const maxLength = params.max_length as number;
+      if (!cell.spec?.maxLength && cell.value.length > maxLength) {
+        return {
+          error: `Text too long (maximum ${maxLength} characters)`,
+          params: { max_length: maxLength, length: cell.value.length },
+        };
+      }
+      return null;
+    },
+  },
+  {
+    id: "max_length",
+    scope: "field",
+    title: "Maximum length",
+    description: "Value is longer than the field dictionary allows",
+    severity: "error",
+    check({ spec, value }) {
+      if (!spec?.maxLength || value.length <= spec.maxLength) return null;
+      return {
+        error: `${spec.label} is too long (maximum ${spec.maxLength} characters)`,
+        params: { max_length: spec.maxLength, length: value.length },
+      };
+    },
+  },
+];
@@ -0,0 +1,289 @@
+import { BillingGuidelines, matterGuidelines } from "../guidelines";
+import {
+  LINE_ITEM_TYPE_FIELDS,
+  TIMEKEEPER_CLASSIFICATIONS,
+  TIMEKEEPER_ID_FIELDS,
+} from "../ledesFields";
+import { MATTER_ID_FIELD } from "../matters";
+import { Decimal, formatMinorUnits, parseDecimal } from "../money";
+import { describeUtbmsCode, UTBMS_CODE_FIELDS } from "../utbms";
+import {
+  DatasetIssue,
+  FieldCell,
+  RowView,
+  ValidationRule,
+} from "../validationRules";
+import { isValidDate, parseAmount } from "./fieldRules";
+
+function isFeeLine(lineType: string): boolean {
+  return lineType.trim().toUpperCase() === "F";
+}
+
+// The guidelines' roster first, then the file's own classification column
+export function classificationOf(row: RowView): string {
+  const timekeeper = row.get(TIMEKEEPER_ID_FIELDS[row.format]).trim();
+  return (
+    row.guidelines?.timekeepers[timekeeper] ||
+    row.get("TIMEKEEPER_CLASSIFICATION").trim().toUpperCase()
+  );
+}
+
+function codeIssue(
+  { field, value, spec }: FieldCell,
+  guidelines: BillingGuidelines
+) {
+  const code = value.trim().toUpperCase();
+  const description = describeUtbmsCode(field, code);
+  return {
+    error: `${spec?.label ?? field} ${code}${
+      description ? ` (${description})` : ""
+    } is not billable under ${guidelines.name}`,
+    params: { code, guidelines: guidelines.name },
+  };
+}
+
+// Whether a decimal string is a whole multiple of the increment
+function isMultipleOf(value: string, increment: number): boolean {
+  const amount = parseDecimal(value);
+  const step = parseDecimal(String(increment));
+  if (!amount || !step || step.digits === 0) return true;
+
+  const scale = Math.max(amount.scale, step.scale);
+  const scaled = amount.digits * Math.pow(10, scale - amount.scale);
+  const scaledStep = step.digits * Math.pow(10, scale - step.scale);
+  return scaled % scaledStep === 0;
+}
+
+// Exact sum of two decimals, at the larger of their scales
+function addDecimals(a: Decimal, b: Decimal): Decimal {
+  const scale = Math.max(a.scale, b.scale);
+  return {
+    digits:
+      a.digits * Math.pow(10, scale - a.scale) +
+      b.digits * Math.pow(10, scale - b.scale),
+    scale,
+  };
+}
+
+// Without trailing zeros
+function formatUnits(units: Decimal): string {
+  const text = formatMinorUnits(units.digits, units.scale);
+  return text.includes(".") ? text.replace(/\.?0+$/, "") : text;
+}
+
+// Only lines of matters with billing guidelines are checked, and only
+// against the limits those guidelines set
+export const GUIDELINE_RULES: ValidationRule[] = [
+  {
+    id: "guideline_disallowed_code",
+    scope: "field",
+    title: "Disallowed task or activity code",
+    description:
+      "Task or activity code the matter's billing guidelines do not allow",
+    severity: "error",
+    check(cell) {
+      const { guidelines } = cell;
+      const kind = UTBMS_CODE_FIELDS[cell.field];
+      if (!guidelines || (kind !== "task" && kind !== "activity")) {
+        return null;
+      }
+      if (
+        !guidelines.disallowedCodes.includes(cell.value.trim().toUpperCase())
+      ) {
+        return null;
+      }
+      return codeIssue(cell, guidelines);
+    },
+  },
+  {
+    id: "guideline_non_billable_expense",
+    scope: "field",
+    title: "Non-billable expense",
+    description:
+      "Expense type the matter's billing guidelines do not reimburse, such as meals",
+    severity: "error",
+    check(cell) {
+      const { guidelines } = cell;
+      if (!guidelines || UTBMS_CODE_FIELDS[cell.field] !== "expense") {
+        return null;
+      }
+      if (
+        !guidelines.nonBillableExpenses.includes(
+          cell.value.trim().toUpperCase()
+        )
+      ) {
+        return null;
+      }
+      return codeIssue(cell, guidelines);
+    },
+  },
+  {
+    id: "guideline_unknown_timekeeper",
+    scope: "row",
+    title: "Timekeeper without classification",
+    description:
+      "Fee line's timekeeper has no classification, so the rate cap cannot be checked",
+    severity: "warning",
+    check(row) {
+      const { guidelines } = row;
+      if (!guidelines || !isFeeLine(row.lineType)) return [];
+      if (Object.keys(guidelines.maxRates).length === 0) return [];
+
+      const field = TIMEKEEPER_ID_FIELDS[row.format];
+      const timekeeper = row.get(field).trim();
+      if (!timekeeper) return []; // Required field, caught elsewhere
+      if (classificationOf(row) in TIMEKEEPER_CLASSIFICATIONS) {
+        return [];
+      }
+      return [
+        {
+          field,
+          error: `Timekeeper ${timekeeper} is not on the ${guidelines.name} roster and the line has no classification`,
+          params: { timekeeper, guidelines: guidelines.name },
+        },
+      ];
+    },
+  },
+  {
+    id: "guideline_max_rate",
+    scope: "row",
+    title: "Rate above guideline maximum",
+    description:
+      "Fee line's hourly rate is above the maximum for the timekeeper's classification",
+    severity: "error",
+    check(row) {
+      const { guidelines } = row;
+      if (!guidelines || !isFeeLine(row.lineType)) return [];
+
+      const classification = classificationOf(row);
+      const maxRate = guidelines.maxRates[classification];
+      const unitCost = row.get("LINE_ITEM_UNIT_COST");
+      const rate = parseAmount(unitCost);
+      if (maxRate === undefined || isNaN(rate) || rate <= maxRate) return [];
+
+      const timekeeper = row.get(TIMEKEEPER_ID_FIELDS[row.format]).trim();
+      return [
+        {
+          field: "LINE_ITEM_UNIT_COST",
+          error: `Rate ${unitCost} for ${timekeeper} is above the ${maxRate} maximum for ${TIMEKEEPER_CLASSIFICATIONS[classification]} (${classification}) timekeepers under ${guidelines.name}`,
+          params: {
+            timekeeper,
+            classification,
+            rate,
+            max_rate: maxRate,
+            guidelines: guidelines.name,
+          },
+        },
+      ];
+    },
+  },
+  {
+    id: "guideline_billing_increment",
+    scope: "row",
+    title: "Billing increment",
+    description:
+      "Fee line's units are not a multiple of the guidelines' minimum billing increment",
+    severity: "error",
+    check(row) {
+      const { guidelines } = row;
+      const increment = guidelines?.billingIncrement;
+      if (!guidelines || !increment || !isFeeLine(row.lineType)) return [];
+
+      const units = row.get("LINE_ITEM_NUMBER_OF_UNITS").trim();
+      if (!units || isMultipleOf(units, increment)) return [];
+      return [
+        {
+          field: "LINE_ITEM_NUMBER_OF_UNITS",
+          error: `${units} units is not a multiple of the ${increment} billing increment under ${guidelines.name}`,
+          params: { units, increment, guidelines: guidelines.name },
+        },
+      ];
+    },
+  },
+  {
+    id: "guideline_daily_units",
+    scope: "dataset",
+    title: "Daily units per timekeeper",
+    description:
+      "Timekeeper billed more units on one day than the billing guidelines allow",
+    severity: "error",
+    check(data) {
+      const { headers, dataset, format } = data;
+      const timekeeperField = TIMEKEEPER_ID_FIELDS[format];
+      const column = (field: string) => headers.indexOf(field);
+      const timekeeperIndex = column(timekeeperField);
+      const dateIndex = column("LINE_ITEM_DATE");
+      const unitsIndex = column("LINE_ITEM_NUMBER_OF_UNITS");
+      const typeIndex = column(LINE_ITEM_TYPE_FIELDS[format]);
+      const matterIndex = column(MATTER_ID_FIELD);
+      if ([timekeeperIndex, dateIndex, unitsIndex].includes(-1)) return [];
+
+      // Units per guidelines, timekeeper and day; one day can span matters
+      // billed under the same guidelines
+      const days: Record<
+        string,
+        {
+          guidelines: BillingGuidelines;
+          timekeeper: string;
+          date: string;
+          units: Decimal;
+          rows: number[];
+        }
+      > = {};
+      dataset.forEach((rowData, rowIndex) => {
+        if (!isFeeLine(rowData[typeIndex] || "")) return;
+        const matter = data.matters[(rowData[matterIndex] || "").trim()] ?? {};
+        const guidelines = matterGuidelines(matter, data.guidelines);
+        if (!guidelines?.maxDailyUnits) return;
+
+        const timekeeper = (rowData[timekeeperIndex] || "").trim();
+        const date = (rowData[dateIndex] || "").trim();
+        const units = parseDecimal(rowData[unitsIndex] || "");
+        if (!timekeeper || !isValidDate(date) || !units) return;
+
+        const key = `${guidelines.id}|${timekeeper}|${date}`;
+        days[key] ??= {
+          guidelines,
+          timekeeper,
+          date,
+          units: { digits: 0, scale: 0 },
+          rows: [],
+        };
+        days[key].units = addDecimals(days[key].units, units);
+        days[key].rows.push(rowIndex + 1);
+      });
+
+      const issues: DatasetIssue[] = [];
+      Object.values(days).forEach(
+        ({ guidelines, timekeeper, date, units, rows }) => {
+          const maxUnits = guidelines.maxDailyUnits as number;
+          const max = parseDecimal(String(maxUnits));
+          if (!max) return;
+          const excess = addDecimals(units, {
+            digits: -max.digits,
+            scale: max.scale,
+          });
+          if (excess.digits <= 0) return;
+          issues.push({
+            invoice_identifier: `${timekeeperField}=${timekeeper}, LINE_ITEM_DATE=${date}`,
+            error: `${timekeeper} billed ${formatUnits(
+              units
+            )} units on ${date}, more than the ${maxUnits} allowed per day under ${
+              guidelines.name
+            }`,
+            affected_rows: rows,
+            params: {
+              field: "LINE_ITEM_NUMBER_OF_UNITS",
+              timekeeper,
+              date,
+              units: formatUnits(units),
+              max_units: maxUnits,
+              guidelines: guidelines.name,
+            },
+          });
+        }
+      );
+      return issues;
+    },
+  },
+];
@@ -0,0 +1,20 @@
+import { ValidationRule } from "../validationRules";
+import { DATASET_RULES } from "./datasetRules";
+import { FIELD_RULES } from "./fieldRules";
+import { GUIDELINE_RULES } from "./guidelineRules";
+import { NARRATIVE_RULES } from "./narrativeRules";
+import { ROW_RULES } from "./rowRules";
+import { TIMEKEEPER_RULES } from "./timekeeperRules";
+import { UTBMS_RULES } from "./utbmsRules";
+
+// Registered in this order; field rules before row rules before dataset rules
+export const BUILT_IN_RULES: ValidationRule[] = [
+  ...FIELD_RULES,
+  ...UTBMS_RULES,
+  ...ROW_RULES,
+  ...NARRATIVE_RULES,
+  ...DATASET_RULES,
+  ...TIMEKEEPER_RULES,
+  // Scopes are filtered separately, so these still run after the rules above
+  ...GUIDELINE_RULES,
+];
@@ -0,0 +1,244 @@
+import { TIMEKEEPER_CLASSIFICATIONS } from "../ledesFields";
+import { findPhrases, matchedPhrases } from "../narrative";
+import { TextRange } from "../types";
+import { RowRule, RowView } from "../validationRules";
+import { classificationOf } from "./guidelineRules";
+
+const DESCRIPTION_FIELD = "LINE_ITEM_DESCRIPTION";
+
+const PHRASE_LIST_HELP =
+  "Phrases match whole words, ignoring case; write a regular expression between slashes, e.g. /\\bcall(ed)? with\\b/";
+
+// Narratives of time entries; expense descriptions such as "Copying" are fine
+function feeDescription(row: RowView): string {
+  return row.lineType.trim().toUpperCase() === "F"
+    ? row.get(DESCRIPTION_FIELD)
+    : "";
+}
+
+function wordCount(text: string): number {
+  return (text.match(/[a-z0-9]+(?:['’][a-z]+)?/gi) ?? []).length;
+}
+
+// The text around and between the ranges
+function textBetween(text: string, ranges: TextRange[]): string[] {
+  const parts: string[] = [];
+  let from = 0;
+  ranges.forEach(({ start, end }) => {
+    parts.push(text.slice(from, start));
+    from = end;
+  });
+  parts.push(text.slice(from));
+  return parts;
+}
+
+function quoted(phrases: string[]): string {
+  return phrases.map((phrase) => `"${phrase}"`).join(", ");
+}
+
+export const NARRATIVE_RULES: RowRule[] = [
+  {
+    id: "narrative_block_billing",
+    scope: "row",
+    title: "Block billing",
+    description: "Time entry lumps several tasks into one line",
+    severity: "warning",
+    params: [
+      {
+        key: "separators",
+        label: "Task separators",
+        type: "list",
+        default: [";"],
+        description: PHRASE_LIST_HELP,
+      },
+      {
+        key: "min_tasks",
+        label: "Tasks in one entry",
+        type: "number",
+        default: 2,
+        min: 2,
+        step: 1,
+        description: "Fewest separated tasks that count as block billing",
+      },
+    ],
+    check(row, params) {
+      const description = feeDescription(row);
+      if (!description) return [];
+
+      // A separator only splits tasks with words on both sides
+      const separators = findPhrases(
+        description,
+        params.separators as string[]
+      ).filter(
+        ({ start, end }) =>
+          wordCount(description.slice(0, start)) > 0 &&
+          wordCount(description.slice(end)) > 0
+      );
+      const tasks = textBetween(description, separators).filter(
+        (part) => wordCount(part) > 0
+      ).length;
+
+      const minTasks = params.min_tasks as number;
+      if (tasks < minTasks) return [];
+      return [
+        {
+          field: DESCRIPTION_FIELD,
+          error: `Description combines ${tasks} tasks in one entry; bill each task on its own line`,
+          params: { tasks, min_tasks: minTasks },
+          highlights: separators,
+        },
+      ];
+    },
+  },
+  {
+    id: "narrative_vague",
+    scope: "row",
+    title: "Vague description",
+    description:
+      'Time entry does not say what was done, e.g. "review file" or "attention to matter"',
+    severity: "warning",
+    params: [
+      {
+        key: "phrases",
+        label: "Vague phrases",
+        type: "list",
+        default: [
+          "review file",
+          "file review",
+          "attention to matter",
+          "attention to file",
+          "work on matter",
+          "work on file",
+          "various",
+          "miscellaneous",
+          "misc",
+          "general",
+          "follow up",
+          "follow-up",
+          "review documents",
+          "review emails",
+          "correspondence",
+        ],
+        description: PHRASE_LIST_HELP,
+      },
+      {
+        key: "min_detail_words",
+        label: "Detail words required",
+        type: "number",
+        default: 4,
+        min: 0,
+        step: 1,
+        description:
+          "A description with a vague phrase is still fine when this many other words explain it",
+      },
+    ],
+    check(row, params) {
+      const description = feeDescription(row);
+      if (!description) return [];
+
+      const ranges = findPhrases(description, params.phrases as string[]);
+      if (ranges.length === 0) return [];
+
+      const detail = textBetween(description, ranges).reduce(
+        (words, part) => words + wordCount(part),
+        0
+      );
+      const minDetail = params.min_detail_words as number;
+      if (detail >= minDetail) return [];
+
+      const phrases = matchedPhrases(description, ranges);
+      return [
+        {
+          field: DESCRIPTION_FIELD,
+          error: `Vague description: ${quoted(
+            phrases
+          )} does not say what was done or why`,
+          params: { phrases: phrases.join(", "), detail_words: detail },
+          highlights: ranges,
+        },
+      ];
+    },
+  },
+  {
+    id: "narrative_clerical",
+    scope: "row",
+    title: "Clerical work",
+    description:
+      "Time entry describes clerical work, such as scanning or scheduling, billed as professional time",
+    severity: "warning",
+    params: [
+      {
+        key: "phrases",
+        label: "Clerical tasks",
+        type: "list",
+        default: [
+          "scan",
+          "scanned",
+          "scanning",
+          "photocopy",
+          "photocopying",
+          "copy documents",
+          "file documents",
+          "organize file",
+          "organize files",
+          "bates label",
+          "bates stamp",
+          "data entry",
+          "calendar",
+          "schedule meeting",
+          "scheduling",
+          "fax",
+          "mailing",
+          "printing",
+          "prepare binder",
+          "assemble binder",
+          "collate",
+          "index documents",
+        ],
+        description: PHRASE_LIST_HELP,
+      },
+      {
+        key: "classifications",
+        label: "Professional classifications",
+        type: "list",
+        default: ["PT", "AS", "OC"],
+        description:
+          "Timekeepers flagged for clerical work; timekeepers without a classification are always flagged",
+      },
+    ],
+    check(row, params) {
+      const description = feeDescription(row);
+      if (!description) return [];
+
+      const classification = classificationOf(row);
+      const flagged = (params.classifications as string[]).map((c) =>
+        c.trim().toUpperCase()
+      );
+      const known = Object.prototype.hasOwnProperty.call(
+        TIMEKEEPER_CLASSIFICATIONS,
+        classification
+      );
+      if (known && !flagged.includes(classification)) return [];
+
+      const ranges = findPhrases(description, params.phrases as string[]);
+      if (ranges.length === 0) return [];
+
+      const phrases = matchedPhrases(description, ranges);
+      return [
+        {
+          field: DESCRIPTION_FIELD,
+          error: known
+            ? `Clerical work (${quoted(phrases)}) billed by a ${
+                TIMEKEEPER_CLASSIFICATIONS[classification]
+              } (${classification}) timekeeper`
+            : `Clerical work (${quoted(phrases)}) billed as professional time`,
+          params: {
+            phrases: phrases.join(", "),
+            ...(known ? { classification } : {}),
+          },
+          highlights: ranges,
+        },
+      ];
+    },
+  },
+];
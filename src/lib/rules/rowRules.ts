@@ -0,0 +1,339 @@
+import {
+  formatMinorUnits,
+  multiplyMoney,
+  parseDecimal,
+  parseMoney,
+} from "../money";
+import { RowIssue, RowRule } from "../validationRules";
+import { exceedsTolerance, MONEY_PARAMS, moneyContext } from "./amounts";
+import { isValidDate, parseAmount, parseDate, today } from "./fieldRules";
+
+function isAdjustment(lineType: string): boolean {
+  return ["IF", "IE"].includes(lineType.toUpperCase());
+}
+
+export const ROW_RULES: RowRule[] = [
+  {
+    id: "billing_date_range",
+    scope: "row",
+    title: "Billing period",
+    description: "Billing end date is before the billing start date",
+    severity: "error",
+    check(row) {
+      const billingStart = row.get("BILLING_START_DATE");
+      const billingEnd = row.get("BILLING_END_DATE");
+
+      // Malformed dates are caught by field validation
+      if (!isValidDate(billingStart) || !isValidDate(billingEnd)) {
+        return [];
+      }
+      if (parseDate(billingEnd) >= parseDate(billingStart)) {
+        return [];
+      }
+
+      // Add error to both related fields to highlight the relationship
+      return [
+        {
+          field: "BILLING_START_DATE",
+          error: "Billing start date must be on or before billing end date",
+        },
+        {
+          field: "BILLING_END_DATE",
+          error: "Billing end date must be on or after billing start date",
+        },
+      ];
+    },
+  },
+  {
+    id: "line_date_in_billing_period",
+    scope: "row",
+    title: "Line date in billing period",
+    description: "Line item date falls outside the invoice's billing period",
+    severity: "error",
+    check(row) {
+      const lineDate = row.get("LINE_ITEM_DATE");
+      if (!isValidDate(lineDate)) return [];
+
+      const billingStart = row.get("BILLING_START_DATE");
+      const billingEnd = row.get("BILLING_END_DATE");
+      if (isValidDate(billingStart) && lineDate < billingStart) {
+        return [
+          {
+            field: "LINE_ITEM_DATE",
+            error: `Line item date ${lineDate} is before the billing period starts (${billingStart})`,
+            params: { date: lineDate, billing_start_date: billingStart },
+          },
+        ];
+      }
+      if (isValidDate(billingEnd) && lineDate > billingEnd) {
+        return [
+          {
+            field: "LINE_ITEM_DATE",
+            error: `Line item date ${lineDate} is after the billing period ends (${billingEnd})`,
+            params: { date: lineDate, billing_end_date: billingEnd },
+          },
+        ];
+      }
+      return [];
+    },
+  },
+  {
+    id: "invoice_date_after_period",
+    scope: "row",
+    title: "Invoice date after billing period",
+    description: "Invoice is dated before its billing period ends",
+    severity: "error",
+    check(row) {
+      const invoiceDate = row.get("INVOICE_DATE");
+      const billingEnd = row.get("BILLING_END_DATE");
+      if (!isValidDate(invoiceDate) || !isValidDate(billingEnd)) return [];
+      if (invoiceDate >= billingEnd) return [];
+      return [
+        {
+          field: "INVOICE_DATE",
+          error: `Invoice date ${invoiceDate} is before the billing period ends (${billingEnd})`,
+          params: { date: invoiceDate, billing_end_date: billingEnd },
+        },
+      ];
+    },
+  },
+  {
+    id: "line_item_age",
+    scope: "row",
+    title: "Line item age",
+    description: "Line item is older than clients usually accept",
+    severity: "warning",
+    params: [
+      {
+        key: "max_age_days",
+        label: "Maximum age (days)",
+        type: "number",
+        default: 90,
+        min: 1,
+        step: 1,
+      },
+      {
+        key: "relative_to",
+        label: "Measured from",
+        type: "choice",
+        default: "invoice_date",
+        options: { invoice_date: "Invoice date", today: "Today" },
+        description:
+          "Lines of invoices without a valid date are measured from today",
+      },
+    ],
+    check(row, params) {
+      const lineDate = row.get("LINE_ITEM_DATE");
+      if (!isValidDate(lineDate)) return [];
+
+      const invoiceDate = row.get("INVOICE_DATE");
+      const fromInvoice =
+        params.relative_to === "invoice_date" && isValidDate(invoiceDate);
+      const reference = fromInvoice ? parseDate(invoiceDate) : today();
+      // Rounded, as days across a daylight saving change are not 24 hours
+      const ageDays = Math.round(
+        (reference.getTime() - parseDate(lineDate).getTime()) / 86400000
+      );
+
+      const maxAge = params.max_age_days as number;
+      if (ageDays <= maxAge) return [];
+      return [
+        {
+          field: "LINE_ITEM_DATE",
+          error: `Line item date ${lineDate} is ${ageDays} days before ${
+            fromInvoice ? "the invoice date" : "today"
+          } (maximum ${maxAge})`,
+          params: { date: lineDate, age_days: ageDays, max_age_days: maxAge },
+        },
+      ];
+    },
+  },
+  {
+    id: "zero_units",
+    scope: "row",
+    title: "Zero units",
+    description: "Fee or expense line has zero units",
+    severity: "error",
+    check(row) {
+      const units = row.get("LINE_ITEM_NUMBER_OF_UNITS");
+      if (!row.lineType || !units || isAdjustment(row.lineType)) return [];
+      if (parseFloat(units) !== 0) return [];
+      return [
+        {
+          field: "LINE_ITEM_NUMBER_OF_UNITS",
+          error:
+            "Units cannot be 0 or null for non-adjustment line items (F, E)",
+        },
+      ];
+    },
+  },
+  {
+    id: "zero_unit_cost",
+    scope: "row",
+    title: "Zero unit cost",
+    description: "Fee or expense line has a zero unit cost",
+    severity: "warning",
+    check(row) {
+      const unitCost = row.get("LINE_ITEM_UNIT_COST");
+      if (!row.lineType || !unitCost || isAdjustment(row.lineType)) return [];
+      if (parseAmount(unitCost) !== 0) return [];
+      return [
+        {
+          field: "LINE_ITEM_UNIT_COST",
+          error:
+            "Unit cost cannot be 0 or null for non-adjustment line items (F, E)",
+        },
+      ];
+    },
+  },
+  {
+    id: "line_total_calculation",
+    scope: "row",
+    title: "Line total",
+    description: "Line total is not units × unit cost + adjustment + tax",
+    severity: "error",
+    params: MONEY_PARAMS,
+    check(row, params) {
+      const units = row.get("LINE_ITEM_NUMBER_OF_UNITS");
+      const unitCost = row.get("LINE_ITEM_UNIT_COST");
+      const adjustment = row.get("LINE_ITEM_ADJUSTMENT_AMOUNT");
+      const tax = row.get("LINE_ITEM_TAX_TOTAL");
+      const lineTotal = row.get("LINE_ITEM_TOTAL");
+
+      if (!units || !unitCost || !lineTotal) {
+        return [];
+      }
+
+      const context = moneyContext(params, row.get("INVOICE_CURRENCY"));
+      const unitsDecimal = parseDecimal(units);
+      const unitCostDecimal = parseDecimal(unitCost);
+      const lineTotalMinor = parseMoney(lineTotal, context);
+
+      // Malformed numbers are caught by field validation
+      if (!unitsDecimal || !unitCostDecimal || lineTotalMinor === null) {
+        return [];
+      }
+
+      const adjustmentMinor = parseMoney(adjustment, context) ?? 0;
+      const taxMinor = parseMoney(tax, context) ?? 0;
+
+      // Units × unit cost is rounded once, before adjustment and tax are added
+      const calculatedMinor =
+        multiplyMoney(unitsDecimal, unitCostDecimal, context) +
+        adjustmentMinor +
+        taxMinor;
+
+      if (!exceedsTolerance(lineTotalMinor, calculatedMinor, params, context)) {
+        return [];
+      }
+
+      const format = (minorUnits: number) =>
+        formatMinorUnits(minorUnits, context.decimals);
+      const error = `Line item calculation error: ${units} × ${unitCost} + ${format(
+        adjustmentMinor
+      )} + ${format(taxMinor)} should equal ${format(
+        calculatedMinor
+      )}, but total shows ${format(lineTotalMinor)}`;
+      const issueParams = {
+        stated: lineTotal,
+        calculated: format(calculatedMinor),
+      };
+
+      // Add errors to all fields involved in the calculation
+      const fields = [
+        "LINE_ITEM_NUMBER_OF_UNITS",
+        "LINE_ITEM_UNIT_COST",
+        ...(adjustment ? ["LINE_ITEM_ADJUSTMENT_AMOUNT"] : []),
+        ...(tax ? ["LINE_ITEM_TAX_TOTAL"] : []),
+        "LINE_ITEM_TOTAL",
+      ];
+      return fields.map(
+        (field): RowIssue => ({
+          field,
+          error,
+          params: issueParams,
+          ...(field === "LINE_ITEM_TOTAL"
+            ? {
+                fix: {
+                  label: `Set total to ${format(calculatedMinor)}`,
+                  value: format(calculatedMinor),
+                },
+              }
+            : {}),
+        })
+      );
+    },
+  },
+  {
+    id: "line_tax_calculation",
+    scope: "row",
+    title: "Line tax",
+    description: "Line tax is not the taxable amount × tax rate",
+    severity: "error",
+    params: MONEY_PARAMS,
+    check(row, params) {
+      const rate = row.get("LINE_ITEM_TAX_RATE");
+      const units = row.get("LINE_ITEM_NUMBER_OF_UNITS");
+      const unitCost = row.get("LINE_ITEM_UNIT_COST");
+      if (!rate || !units || !unitCost) {
+        return [];
+      }
+
+      const context = moneyContext(params, row.get("INVOICE_CURRENCY"));
+      const rateDecimal = parseDecimal(rate);
+      const unitsDecimal = parseDecimal(units);
+      const unitCostDecimal = parseDecimal(unitCost);
+      const tax = row.get("LINE_ITEM_TAX_TOTAL");
+      const taxMinor = tax ? parseMoney(tax, context) : 0;
+
+      // Malformed numbers are caught by field validation
+      if (
+        !rateDecimal ||
+        !unitsDecimal ||
+        !unitCostDecimal ||
+        taxMinor === null
+      ) {
+        return [];
+      }
+
+      // Taxable amount is the line before tax: units × unit cost + adjustment
+      const baseMinor =
+        multiplyMoney(unitsDecimal, unitCostDecimal, context) +
+        (parseMoney(row.get("LINE_ITEM_ADJUSTMENT_AMOUNT"), context) ?? 0);
+      const calculatedMinor = multiplyMoney(
+        { digits: baseMinor, scale: context.decimals },
+        rateDecimal,
+        context
+      );
+
+      if (!exceedsTolerance(taxMinor, calculatedMinor, params, context)) {
+        return [];
+      }
+
+      const format = (minorUnits: number) =>
+        formatMinorUnits(minorUnits, context.decimals);
+      const error = `Line item tax (${format(
+        taxMinor
+      )}) should equal taxable amount ${format(
+        baseMinor
+      )} × tax rate ${rate} = ${format(calculatedMinor)}`;
+      const issueParams = {
+        stated: tax,
+        calculated: format(calculatedMinor),
+      };
+
+      return [
+        {
+          field: "LINE_ITEM_TAX_TOTAL",
+          error,
+          params: issueParams,
+          fix: {
+            label: `Set tax to ${format(calculatedMinor)}`,
+            value: format(calculatedMinor),
+          },
+        },
+        { field: "LINE_ITEM_TAX_RATE", error, params: issueParams },
+      ];
+    },
+  },
+];
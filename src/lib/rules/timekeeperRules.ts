@@ -0,0 +1,478 @@
+import { normalizeText, similarity } from "../fuzzy";
+import { invoiceKey } from "../invoices";
+import { LINE_ITEM_TYPE_FIELDS, TIMEKEEPER_ID_FIELDS } from "../ledesFields";
+import { MATTER_ID_FIELD } from "../matters";
+import {
+  DatasetIssue,
+  DatasetRule,
+  DatasetView,
+  RuleParamValues,
+} from "../validationRules";
+import { parseAmount } from "./fieldRules";
+
+// One fee line, with the fields these rules compare
+interface TimeEntry {
+  row: number; // 1-based
+  timekeeper: string;
+  date: string;
+  units: string;
+  rate: string;
+  description: string;
+  // See invoiceKey
+  invoice: string;
+  invoiceNumber: string;
+  matter: string;
+  billingPeriod: string;
+}
+
+// Fee lines of the given rows, or of every row. Lines without a timekeeper
+// are skipped; the required field rule reports them.
+function timeEntries(data: DatasetView, rowIndexes?: number[]): TimeEntry[] {
+  const { headers, dataset, format } = data;
+  const cell = (rowData: string[], field: string) => {
+    const index = headers.indexOf(field);
+    return index === -1 ? "" : (rowData[index] || "").trim();
+  };
+
+  const entries: TimeEntry[] = [];
+  (rowIndexes ?? dataset.map((_, rowIndex) => rowIndex)).forEach((rowIndex) => {
+    const rowData = dataset[rowIndex];
+    const timekeeper = cell(rowData, TIMEKEEPER_ID_FIELDS[format]);
+    const lineType = cell(rowData, LINE_ITEM_TYPE_FIELDS[format]);
+    if (!timekeeper || lineType.toUpperCase() !== "F") return;
+
+    entries.push({
+      row: rowIndex + 1,
+      timekeeper,
+      date: cell(rowData, "LINE_ITEM_DATE"),
+      units: cell(rowData, "LINE_ITEM_NUMBER_OF_UNITS"),
+      rate: cell(rowData, "LINE_ITEM_UNIT_COST"),
+      description: cell(rowData, "LINE_ITEM_DESCRIPTION"),
+      invoice: invoiceKey(rowData, headers),
+      invoiceNumber: cell(rowData, "INVOICE_NUMBER"),
+      matter: cell(rowData, MATTER_ID_FIELD),
+      billingPeriod: `${cell(rowData, "BILLING_START_DATE")}-${cell(
+        rowData,
+        "BILLING_END_DATE"
+      )}`,
+    });
+  });
+  return entries;
+}
+
+// Items grouped by key, in order of first appearance; empty keys are left out
+function groupBy<T>(items: T[], key: (item: T) => string): T[][] {
+  const groups: Record<string, T[]> = {};
+  const order: string[] = [];
+  items.forEach((item) => {
+    const value = key(item);
+    if (!value) return;
+    if (!groups[value]) {
+      groups[value] = [];
+      order.push(value);
+    }
+    groups[value].push(item);
+  });
+  return order.map((value) => groups[value]);
+}
+
+// Compared by value, so 500 and 500.00 are the same rate or number of units
+function amountKey(value: string): string {
+  const amount = parseAmount(value);
+  return isNaN(amount) ? "" : String(amount);
+}
+
+// Grouped by rate, most common first; ties go to the earliest
+function byRate<T extends { rate: string }>(items: T[]): T[][] {
+  return groupBy(items, (item) => amountKey(item.rate)).sort(
+    (a, b) => b.length - a.length
+  );
+}
+
+function rowsOf(entries: TimeEntry[]): number[] {
+  return entries.map((entry) => entry.row);
+}
+
+function rowList(rows: number[]): string {
+  return `${rows.length > 1 ? "rows" : "row"} ${rows.join(", ")}`;
+}
+
+function invoiceList(numbers: string[]): string {
+  return `${numbers.length > 1 ? "invoices" : "invoice"} ${numbers.join(", ")}`;
+}
+
+function distinct(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+// Invoice numbers, when the entries are on more than one invoice
+function acrossInvoices(entries: TimeEntry[]): string {
+  const numbers = distinct(entries.map((entry) => entry.invoiceNumber));
+  return numbers.length > 1 ? ` (${invoiceList(numbers)})` : "";
+}
+
+// Up to three quoted, then how many more
+function quotedList(values: string[]): string {
+  const quoted = values.slice(0, 3).map((value) => `"${value}"`);
+  const more = values.length - quoted.length;
+  return more > 0
+    ? `${quoted.join(", ")} and ${more} more`
+    : `${quoted.slice(0, -1).join(", ")} and ${quoted[quoted.length - 1]}`;
+}
+
+// Pairs of descriptions compared per timekeeper and day; similarity is slow
+// on long texts, and hundreds of entries on one day are not a real timesheet
+const MAX_COMPARISONS = 5000;
+
+/**
+ * Entries of one timekeeper's day clustered by description: each cluster
+ * holds the distinct descriptions linked by a similarity of at least
+ * minSimilarity, with the best score among them. Identical descriptions are
+ * duplicate_time_entry's, so clusters of one description are left out, as
+ * are descriptions that normalize to nothing. Truncated is set when the day
+ * needed more than MAX_COMPARISONS comparisons and the rest were skipped.
+ */
+function nearDuplicates(
+  entries: TimeEntry[],
+  minSimilarity: number
+): {
+  clusters: { descriptions: TimeEntry[][]; score: number }[];
+  truncated: boolean;
+} {
+  const descriptions = groupBy(entries, (entry) =>
+    normalizeText(entry.description)
+  );
+
+  // Union-find over description indexes
+  const parent = descriptions.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const scores: Record<number, number> = {};
+
+  let comparisons = 0;
+  let truncated = false;
+  for (let i = 0; i < descriptions.length && !truncated; i++) {
+    for (let j = i + 1; j < descriptions.length; j++) {
+      // Already in one cluster through other descriptions
+      if (root(i) === root(j)) continue;
+      if (comparisons++ >= MAX_COMPARISONS) {
+        truncated = true;
+        break;
+      }
+
+      const score = similarity(
+        descriptions[i][0].description,
+        descriptions[j][0].description
+      );
+      if (score < minSimilarity) continue;
+      const [first, second] = [root(i), root(j)].sort((a, b) => a - b);
+      parent[second] = first;
+      scores[first] = Math.max(score, scores[first] ?? 0, scores[second] ?? 0);
+    }
+  }
+
+  // In order of each cluster's first description
+  const clusters: Record<number, TimeEntry[][]> = {};
+  descriptions.forEach((group, index) => {
+    (clusters[root(index)] ??= []).push(group);
+  });
+  return {
+    clusters: Object.keys(clusters)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .filter((first) => clusters[first].length > 1)
+      .map((first) => ({
+        descriptions: clusters[first],
+        score: scores[first],
+      })),
+    truncated,
+  };
+}
+
+const PERIOD_OPTIONS: Record<string, string> = {
+  year: "Calendar year of the line date",
+  billing_period: "Billing period",
+  matter: "Life of the matter",
+};
+
+function periodOf(entry: TimeEntry, params: RuleParamValues): string {
+  switch (params.period) {
+    case "billing_period":
+      return entry.billingPeriod;
+    case "matter":
+      return "";
+    default:
+      return entry.date.slice(0, 4);
+  }
+}
+
+// One timekeeper on one matter within one rate period
+function ratePeriodKey(entry: TimeEntry, params: RuleParamValues): string {
+  return entry.matter
+    ? `${entry.matter}|${entry.timekeeper}|${periodOf(entry, params)}`
+    : "";
+}
+
+// Descriptions of only punctuation say nothing to compare
+function duplicateKey(entry: TimeEntry): string {
+  const description = normalizeText(entry.description);
+  return description
+    ? [entry.timekeeper, entry.date, amountKey(entry.units), description].join(
+        "|"
+      )
+    : "";
+}
+
+// One timekeeper's day, and units when only those are compared
+function sameDayKey(entry: TimeEntry, params: RuleParamValues): string {
+  return entry.description
+    ? [
+        entry.timekeeper,
+        entry.date,
+        params.same_units ? amountKey(entry.units) : "",
+      ].join("|")
+    : "";
+}
+
+// groupOf for a rule that groups fee lines by key
+function entryGroup(
+  key: (entry: TimeEntry, params: RuleParamValues) => string
+): DatasetRule["groupOf"] {
+  return (data, rowIndex, params) => {
+    const [entry] = timeEntries(data, [rowIndex]);
+    return entry ? key(entry, params) : "";
+  };
+}
+
+export const TIMEKEEPER_RULES: DatasetRule[] = [
+  {
+    id: "timekeeper_rate_invoice",
+    scope: "dataset",
+    title: "Timekeeper rate within invoice",
+    description: "Timekeeper bills at more than one rate within an invoice",
+    severity: "warning",
+    perInvoice: true,
+    check(data) {
+      const issues: DatasetIssue[] = [];
+      data.invoices.forEach((invoice) => {
+        groupBy(
+          timeEntries(data, invoice.rowIndexes),
+          (entry) => entry.timekeeper
+        ).forEach((entries) => {
+          const rates = byRate(entries);
+          if (rates.length < 2) return;
+
+          const [usual, ...others] = rates;
+          const outlierRows = rowsOf(
+            others.reduce((all, group) => all.concat(group), [])
+          ).sort((a, b) => a - b);
+          issues.push({
+            invoice_identifier: invoice.identifier,
+            error: `Timekeeper ${entries[0].timekeeper} bills at ${
+              rates.length
+            } rates within the invoice: ${usual.length} of ${
+              entries.length
+            } lines at ${usual[0].rate}, but ${others
+              .map((group) => `${rowList(rowsOf(group))} at ${group[0].rate}`)
+              .join("; ")}`,
+            affected_rows: outlierRows,
+            params: {
+              field: "LINE_ITEM_UNIT_COST",
+              timekeeper: entries[0].timekeeper,
+              usual_rate: usual[0].rate,
+              rates: rates.map((group) => group[0].rate).join(", "),
+            },
+          });
+        });
+      });
+      return issues;
+    },
+  },
+  {
+    id: "timekeeper_rate_matter",
+    scope: "dataset",
+    title: "Timekeeper rate across invoices",
+    description:
+      "Timekeeper bills one matter at different rates on different invoices of the same period",
+    severity: "warning",
+    params: [
+      {
+        key: "period",
+        label: "One rate per",
+        type: "choice",
+        default: "year",
+        options: PERIOD_OPTIONS,
+        description:
+          "Rates may change between periods, e.g. with an annual rate increase",
+      },
+    ],
+    groupOf: entryGroup(ratePeriodKey),
+    check(data, params) {
+      const issues: DatasetIssue[] = [];
+      groupBy(timeEntries(data, data.rowIndexes), (entry) =>
+        ratePeriodKey(entry, params)
+      ).forEach((entries) => {
+        // Each invoice's usual rate; timekeeper_rate_invoice reports rates
+        // that differ within one invoice
+        const invoices = groupBy(entries, (entry) => entry.invoice).map(
+          (lines) => ({
+            number: lines[0].invoiceNumber || "without number",
+            rows: rowsOf(lines),
+            rate: byRate(lines)[0]?.[0].rate ?? "",
+          })
+        );
+        const rates = byRate(invoices);
+        if (rates.length < 2) return;
+
+        const [usual, ...others] = rates;
+        const outliers = others.reduce((all, group) => all.concat(group), []);
+        const { matter, timekeeper } = entries[0];
+        const period = periodOf(entries[0], params);
+        issues.push({
+          invoice_identifier: `${MATTER_ID_FIELD}=${matter}, ${
+            TIMEKEEPER_ID_FIELDS[data.format]
+          }=${timekeeper}`,
+          error: `Timekeeper ${timekeeper} bills matter ${matter}${
+            params.period === "year" && period ? ` in ${period}` : ""
+          } at ${usual[0].rate} on ${invoiceList(
+            usual.map((invoice) => invoice.number)
+          )}, but ${others
+            .map(
+              (group) =>
+                `${group[0].rate} on ${invoiceList(
+                  group.map((invoice) => invoice.number)
+                )}`
+            )
+            .join("; ")}`,
+          affected_rows: outliers
+            .reduce<number[]>((rows, invoice) => rows.concat(invoice.rows), [])
+            .sort((a, b) => a - b),
+          params: {
+            field: "LINE_ITEM_UNIT_COST",
+            matter,
+            timekeeper,
+            usual_rate: usual[0].rate,
+            rates: rates.map((group) => group[0].rate).join(", "),
+          },
+        });
+      });
+      return issues;
+    },
+  },
+  {
+    id: "duplicate_time_entry",
+    scope: "dataset",
+    title: "Duplicate time entry",
+    description:
+      "Fee lines with the same timekeeper, date, units and description, across all loaded invoices",
+    severity: "warning",
+    groupOf: entryGroup(duplicateKey),
+    check(data) {
+      const timekeeperField = TIMEKEEPER_ID_FIELDS[data.format];
+      return groupBy(timeEntries(data, data.rowIndexes), duplicateKey)
+        .filter((entries) => entries.length > 1)
+        .map((entries) => {
+          const { timekeeper, date, units, description } = entries[0];
+          const rows = rowsOf(entries);
+          return {
+            invoice_identifier: `${timekeeperField}=${timekeeper}, LINE_ITEM_DATE=${date}`,
+            error: `Rows ${rows.join(
+              ", "
+            )} are identical entries: ${timekeeper} on ${date}, ${units} units, "${description}"${acrossInvoices(
+              entries
+            )}`,
+            affected_rows: rows,
+            params: {
+              field: "LINE_ITEM_DESCRIPTION",
+              timekeeper,
+              date,
+              units,
+            },
+          };
+        });
+    },
+  },
+  {
+    id: "near_duplicate_time_entry",
+    scope: "dataset",
+    title: "Near-duplicate time entry",
+    description:
+      "Fee lines of one timekeeper on one day with nearly the same description, across all loaded invoices",
+    severity: "warning",
+    params: [
+      {
+        key: "min_similarity",
+        label: "Minimum similarity",
+        type: "number",
+        default: 0.85,
+        min: 0,
+        step: 0.05,
+        description:
+          "From 0 to 1; descriptions are compared ignoring case, punctuation and word order",
+      },
+      {
+        key: "same_units",
+        label: "Same units only",
+        type: "boolean",
+        default: true,
+        description: "Only compare lines that bill the same number of units",
+      },
+    ],
+    groupOf: entryGroup(sameDayKey),
+    check(data, params) {
+      const timekeeperField = TIMEKEEPER_ID_FIELDS[data.format];
+      const minSimilarity = params.min_similarity as number;
+      const issues: DatasetIssue[] = [];
+
+      groupBy(timeEntries(data, data.rowIndexes), (entry) =>
+        sameDayKey(entry, params)
+      ).forEach((entries) => {
+        const { clusters, truncated } = nearDuplicates(entries, minSimilarity);
+        clusters.forEach(({ descriptions, score }) => {
+          const lines = descriptions.reduce(
+            (all, group) => all.concat(group),
+            []
+          );
+          const rows = rowsOf(lines).sort((a, b) => a - b);
+          const { timekeeper, date } = lines[0];
+          const percent = Math.round(score * 100);
+          issues.push({
+            invoice_identifier: `${timekeeperField}=${timekeeper}, LINE_ITEM_DATE=${date}`,
+            error: `Rows ${rows.join(
+              ", "
+            )} are near-duplicate entries of ${timekeeper} on ${date}: ${quotedList(
+              descriptions.map((group) => group[0].description)
+            )} are ${
+              descriptions.length > 2 ? "up to " : ""
+            }${percent}% similar${acrossInvoices(lines)}`,
+            affected_rows: rows,
+            params: {
+              field: "LINE_ITEM_DESCRIPTION",
+              timekeeper,
+              date,
+              similarity: percent / 100,
+            },
+          });
+        });
+
+        if (truncated) {
+          const rows = rowsOf(entries).sort((a, b) => a - b);
+          const { timekeeper, date } = entries[0];
+          issues.push({
+            severity: "info",
+            invoice_identifier: `${timekeeperField}=${timekeeper}, LINE_ITEM_DATE=${date}`,
+            error: `${timekeeper} has too many entries on ${date} to compare them all; only the first ${MAX_COMPARISONS} pairs of descriptions were checked for near-duplicates`,
+            affected_rows: rows,
+            params: { timekeeper, date, max_comparisons: MAX_COMPARISONS },
+          });
+        }
+      });
+      return issues;
+    },
+  },
+];
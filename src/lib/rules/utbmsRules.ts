@@ -0,0 +1,81 @@
+import { LINE_ITEM_TYPES, LineItemType } from "../ledesFields";
+import {
+  DEFAULT_CODE_SET,
+  UTBMS_CODE_FIELDS,
+  UTBMS_CODE_SETS,
+  UTBMS_LINE_TYPES,
+  UtbmsCodeSetId,
+} from "../utbms";
+import { FieldRule } from "../validationRules";
+
+const CODE_SET_OPTIONS: Record<string, string> = {};
+Object.values(UTBMS_CODE_SETS).forEach((codeSet) => {
+  CODE_SET_OPTIONS[codeSet.id] = codeSet.name;
+});
+
+export const UTBMS_RULES: FieldRule[] = [
+  {
+    id: "utbms_line_type",
+    scope: "field",
+    title: "UTBMS code on wrong line type",
+    description:
+      "Task or activity code on an expense line, or expense code on a fee line",
+    severity: "error",
+    check({ field, spec, value, lineType }) {
+      const kind = UTBMS_CODE_FIELDS[field];
+      const type = lineType.trim().toUpperCase() as LineItemType;
+      if (
+        !kind ||
+        !spec ||
+        !Object.prototype.hasOwnProperty.call(LINE_ITEM_TYPES, type)
+      ) {
+        return null;
+      }
+      if (UTBMS_LINE_TYPES[kind].includes(type)) return null;
+
+      const allowed = UTBMS_LINE_TYPES[kind];
+      return {
+        error: `${spec.label} ${value} is only allowed on ${
+          LINE_ITEM_TYPES[allowed[0]]
+        } line items (${allowed.join(", ")}), not ${type}`,
+        params: { code: value, line_type: type },
+      };
+    },
+  },
+  {
+    id: "utbms_code",
+    scope: "field",
+    title: "UTBMS code",
+    description:
+      "Task, activity or expense code is not in the matter's code set",
+    severity: "error",
+    params: [
+      {
+        key: "code_set",
+        label: "Default code set",
+        type: "choice",
+        default: DEFAULT_CODE_SET,
+        options: CODE_SET_OPTIONS,
+        description: "For matters without a code set of their own",
+      },
+    ],
+    check({ field, spec, value, matter }, params) {
+      const kind = UTBMS_CODE_FIELDS[field];
+      if (!kind || !spec) return null;
+
+      const codeSet =
+        UTBMS_CODE_SETS[
+          matter.codeSet ?? (params.code_set as UtbmsCodeSetId)
+        ] ?? UTBMS_CODE_SETS[DEFAULT_CODE_SET];
+      const code = value.trim().toUpperCase();
+      if (Object.prototype.hasOwnProperty.call(codeSet.codes[kind], code)) {
+        return null;
+      }
+
+      return {
+        error: `${spec.label} ${value} is not in the UTBMS ${codeSet.name} code set`,
+        params: { code: value, code_set: codeSet.id },
+      };
+    },
+  },
+];
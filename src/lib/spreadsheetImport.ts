@@ -0,0 +1,374 @@
+import { decodeBytes, detectEncoding } from "./encoding";
+import { normalizeText, similarity } from "./fuzzy";
+import { LEDES_DATE_FIELDS, LEDES_NUMERIC_FIELDS } from "./ledesFields";
+import { DEFAULT_VERSIONS } from "./ledesParser";
+import {
+  ColumnMapping,
+  LEDES_FORMAT_HEADERS,
+  LedesData,
+  LedesFormat,
+  LedesRow,
+  MappingSuggestion,
+  SavedColumnMapping,
+  SpreadsheetTable,
+} from "./types";
+import { normalizeDate } from "./utils";
+
+const SPREADSHEET_EXTENSIONS = [".csv", ".tsv", ".xlsx", ".xls"];
+
+const SAVED_MAPPINGS_KEY = "ledes-editor:column-mappings";
+
+// Below this a column is left unmapped rather than guessed
+const SUGGESTION_THRESHOLD = 0.6;
+
+// Column titles commonly used in billing spreadsheets, per LEDES field
+const FIELD_ALIASES: Record<string, string[]> = {
+  INVOICE_DATE: ["Invoice Date", "Inv Date", "Bill Date"],
+  INVOICE_NUMBER: ["Invoice #", "Invoice No", "Inv No", "Bill Number"],
+  CLIENT_MATTER_ID: ["Client Matter", "Client Matter Number", "Client Ref"],
+  LAW_FIRM_MATTER_ID: ["Matter", "Matter ID", "Matter Number", "Matter #"],
+  INVOICE_TOTAL: ["Invoice Amount", "Total Invoice", "Invoice Value"],
+  BILLING_START_DATE: ["Period Start", "Billing Start", "From Date"],
+  BILLING_END_DATE: ["Period End", "Billing End", "To Date"],
+  INVOICE_CURRENCY: ["Currency"],
+  LINE_ITEM_NUMBER: ["Line", "Line #", "Line No", "Item #", "Entry #"],
+  LINE_ITEM_NUMBER_OF_UNITS: ["Hours", "Units", "Qty", "Quantity", "Time"],
+  LINE_ITEM_DATE: ["Date", "Work Date", "Service Date", "Entry Date"],
+  LINE_ITEM_UNIT_COST: ["Rate", "Hourly Rate", "Unit Price", "Price"],
+  LINE_ITEM_ADJUSTMENT_AMOUNT: ["Adjustment", "Discount", "Write Off"],
+  LINE_ITEM_TOTAL: ["Amount", "Line Total", "Fees", "Total"],
+  LINE_ITEM_TAX_TOTAL: ["Tax", "VAT", "Tax Amount"],
+  LINE_ITEM_TAX_RATE: ["Tax Rate", "VAT Rate"],
+  LINE_ITEM_DESCRIPTION: ["Description", "Narrative", "Details", "Work Done"],
+  LINE_ITEM_TYPE: ["Type", "Entry Type", "Fee/Expense"],
+  "EXP/FEE/INV_ADJ_TYPE": ["Type", "Entry Type", "Fee/Expense"],
+  LINE_ITEM_EXPENSE_TYPE: ["Expense Code", "Expense Type", "Disbursement"],
+  LINE_ITEM_EXPENSE_CODE: ["Expense Code", "Expense Type", "Disbursement"],
+  LINE_ITEM_TASK_CODE: ["Task", "Task Code", "UTBMS Task"],
+  LINE_ITEM_ACTIVITY_CODE: ["Activity", "Activity Code", "UTBMS Activity"],
+  LINE_ITEM_LAWYER_ID: ["Timekeeper ID", "Lawyer ID", "TK ID", "Attorney ID"],
+  TIMEKEEPER_ID: ["Timekeeper ID", "Lawyer ID", "TK ID", "Attorney ID"],
+  TIMEKEEPER_NAME: ["Timekeeper", "Lawyer", "Attorney", "Fee Earner"],
+  TIMEKEEPER_CLASSIFICATION: ["Title", "Role", "Classification", "Level"],
+  LAW_FIRM_NAME: ["Firm", "Law Firm"],
+  LAW_FIRM_REGISTRATION_ID: ["Firm Tax ID", "Firm ID"],
+  LAW_FIRM_ID: ["Firm Tax ID", "Firm ID"],
+  CLIENT_NAME: ["Client"],
+  CLIENT_REGISTRATION_ID: ["Client ID", "Client Tax ID"],
+  CLIENT_ID: ["Client ID", "Client Tax ID"],
+};
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+// "$1,234.50" -> "1234.50"; anything less clear-cut is left for the validator
+function normalizeAmount(value: string): string {
+  const match = value.match(
+    /^(-?)\s*[$€£]?\s*(-?)(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/
+  );
+  if (!match) return value;
+  const sign = match[1] || match[2];
+  return `${sign}${match[3].replace(/,/g, "")}${match[5] ?? ""}`;
+}
+
+function isBlankRow(row: string[]): boolean {
+  return row.every((cell) => !cell.trim());
+}
+
+export class SpreadsheetImporter {
+  static isSpreadsheet(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return SPREADSHEET_EXTENSIONS.some((ext) => name.endsWith(ext));
+  }
+
+  /**
+   * Reads the first non-empty sheet of a CSV or Excel file. The first
+   * non-blank row is taken as the column titles.
+   */
+  static async readFile(file: File): Promise<SpreadsheetTable> {
+    const buffer = await file.arrayBuffer();
+    const name = file.name.toLowerCase();
+
+    if (name.endsWith(".csv") || name.endsWith(".tsv")) {
+      const bytes = new Uint8Array(buffer);
+      const encoding = detectEncoding(bytes);
+      const text = decodeBytes(bytes, encoding);
+      return {
+        ...this.toTable(file.name, this.parseCsv(text)),
+        encoding,
+      };
+    }
+
+    const XLSX = await import("xlsx");
+    const workbook = XLSX.read(buffer, { type: "array", cellNF: true });
+
+    for (const sheetName of workbook.SheetNames) {
+      const sheet = workbook.Sheets[sheetName];
+      if (!sheet["!ref"]) continue;
+
+      const range = XLSX.utils.decode_range(sheet["!ref"]);
+      const cells: string[][] = [];
+      for (let r = range.s.r; r <= range.e.r; r++) {
+        const row: string[] = [];
+        for (let c = range.s.c; c <= range.e.c; c++) {
+          const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+          if (!cell || cell.v === undefined || cell.v === null) {
+            row.push("");
+          } else if (cell.t === "n" && cell.z && XLSX.SSF.is_date(cell.z)) {
+            const date = XLSX.SSF.parse_date_code(cell.v as number);
+            row.push(`${date.y}${pad(date.m)}${pad(date.d)}`);
+          } else {
+            // Raw values, not display text: "$1,200.00" would not survive validation
+            row.push(String(cell.v));
+          }
+        }
+        cells.push(row);
+      }
+
+      if (cells.some((row) => !isBlankRow(row))) {
+        return { ...this.toTable(file.name, cells), sheetName };
+      }
+    }
+
+    throw new Error("The workbook contains no data");
+  }
+
+  /**
+   * RFC 4180 CSV parser: quoted fields may contain the delimiter, doubled
+   * quotes and line breaks. The delimiter is detected from the first line
+   * when not given.
+   */
+  static parseCsv(text: string, delimiter?: string): string[][] {
+    const sep = delimiter ?? this.detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === "") {
+        inQuotes = true;
+      } else if (char === sep) {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== "" || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private static detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+    const candidates = [",", ";", "\t"];
+    return candidates.reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length
+        ? candidate
+        : best
+    );
+  }
+
+  private static toTable(
+    fileName: string,
+    cells: string[][]
+  ): Omit<SpreadsheetTable, "encoding"> {
+    const headerIndex = cells.findIndex((row) => !isBlankRow(row));
+    if (headerIndex === -1) {
+      throw new Error("File is empty");
+    }
+
+    // Untitled columns still need a distinct name to be mapped by
+    const seen: Record<string, number> = {};
+    const columns = cells[headerIndex].map((title, i) => {
+      const base = title.trim() || `Column ${i + 1}`;
+      seen[base] = (seen[base] ?? 0) + 1;
+      return seen[base] > 1 ? `${base} (${seen[base]})` : base;
+    });
+
+    const rows: string[][] = [];
+    const rowNumbers: number[] = [];
+    cells.slice(headerIndex + 1).forEach((row, i) => {
+      if (isBlankRow(row)) return;
+      rows.push(columns.map((_, c) => (row[c] ?? "").trim()));
+      rowNumbers.push(headerIndex + i + 2);
+    });
+
+    return { fileName, columns, rows, rowNumbers };
+  }
+
+  /**
+   * Suggests a LEDES field for each column by fuzzy-matching its title against
+   * field names and common aliases. Each field is suggested at most once, best
+   * match first.
+   */
+  static suggestMapping(
+    columns: string[],
+    format: LedesFormat
+  ): MappingSuggestion[] {
+    const fields = LEDES_FORMAT_HEADERS[format].filter(
+      (field) => !field.startsWith("RESERVED")
+    );
+
+    const candidates: Array<MappingSuggestion & { field: string }> = [];
+    columns.forEach((column) => {
+      fields.forEach((field) => {
+        const names = [
+          field,
+          field.replace(/^LINE_ITEM_/, ""),
+          ...(FIELD_ALIASES[field] ?? []),
+        ];
+        const score = Math.max(
+          ...names.map((name) => similarity(column, name))
+        );
+        if (score >= SUGGESTION_THRESHOLD) {
+          candidates.push({ column, field, score });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const byColumn: Record<string, MappingSuggestion> = {};
+    const usedFields = new Set<string>();
+    candidates.forEach((candidate) => {
+      if (byColumn[candidate.column] || usedFields.has(candidate.field)) {
+        return;
+      }
+      byColumn[candidate.column] = candidate;
+      usedFields.add(candidate.field);
+    });
+
+    return columns.map(
+      (column) => byColumn[column] ?? { column, field: null, score: 0 }
+    );
+  }
+
+  static toLedesData(
+    table: SpreadsheetTable,
+    mapping: ColumnMapping,
+    format: LedesFormat
+  ): LedesData {
+    const headers = [...LEDES_FORMAT_HEADERS[format]];
+    const mapped = table.columns
+      .map((column, index) => ({ index, field: mapping[column] }))
+      .filter(
+        (m): m is { index: number; field: string } =>
+          !!m.field && headers.includes(m.field)
+      );
+
+    if (mapped.length === 0) {
+      throw new Error("Map at least one column to a LEDES field");
+    }
+
+    const rows = table.rows.map((cells) => {
+      const row: LedesRow = {};
+      headers.forEach((header) => {
+        row[header] = "";
+      });
+      mapped.forEach(({ index, field }) => {
+        let value = cells[index] ?? "";
+        if (LEDES_DATE_FIELDS.includes(field)) value = normalizeDate(value);
+        if (LEDES_NUMERIC_FIELDS.includes(field))
+          value = normalizeAmount(value);
+        row[field] = value;
+      });
+      return row;
+    });
+
+    return {
+      headers,
+      rows,
+      format,
+      version: DEFAULT_VERSIONS[format],
+      sources: table.rowNumbers.map((line) => ({ line })),
+      encoding: table.encoding,
+    };
+  }
+
+  static loadSavedMappings(): SavedColumnMapping[] {
+    if (typeof window === "undefined") return [];
+    try {
+      const stored = window.localStorage.getItem(SAVED_MAPPINGS_KEY);
+      return stored ? (JSON.parse(stored) as SavedColumnMapping[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static saveMapping(
+    name: string,
+    format: LedesFormat,
+    mapping: ColumnMapping
+  ): SavedColumnMapping[] {
+    const saved = this.loadSavedMappings().filter((m) => m.name !== name);
+    saved.push({ name, format, mapping, savedAt: new Date().toISOString() });
+    window.localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(saved));
+    return saved;
+  }
+
+  static deleteSavedMapping(name: string): SavedColumnMapping[] {
+    const saved = this.loadSavedMappings().filter((m) => m.name !== name);
+    window.localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(saved));
+    return saved;
+  }
+
+  /**
+   * The saved mapping that covers the most of these columns, if any covers
+   * them all. Lets a recurring spreadsheet layout import without re-mapping.
+   * Titles without letters or digits, such as "#", never match.
+   */
+  static findSavedMapping(
+    columns: string[],
+    saved: SavedColumnMapping[]
+  ): SavedColumnMapping | undefined {
+    const normalized = new Set(columns.map(normalizeText).filter(Boolean));
+    return saved
+      .filter((m) => {
+        const keys = Object.keys(m.mapping).map(normalizeText).filter(Boolean);
+        return keys.length > 0 && keys.every((key) => normalized.has(key));
+      })
+      .sort(
+        (a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length
+      )[0];
+  }
+
+  // Re-keys a saved mapping onto this file's column titles
+  static applySavedMapping(
+    columns: string[],
+    saved: SavedColumnMapping
+  ): ColumnMapping {
+    const byNormalized: Record<string, string | null> = {};
+    Object.entries(saved.mapping).forEach(([column, field]) => {
+      const key = normalizeText(column);
+      if (key) byNormalized[key] = field;
+    });
+    return columns.reduce((mapping, column) => {
+      const key = normalizeText(column);
+      mapping[column] = (key && byNormalized[key]) || null;
+      return mapping;
+    }, {} as ColumnMapping);
+  }
+}
@@ -4,12 +4,48 @@ export interface LedesRow {
   [key: string]: string;
 }
 
+export type ValidationSeverity = "error" | "warning" | "info";
+
+// Structured details of a finding, e.g. { expected: "100.00", actual: "90.00" }
+export type ValidationParams = Record<string, string | number>;
+
+// One cell a fix sets; row is 1-based like the rows findings refer to
+export interface CellChange {
+  row: number;
+  field: string;
+  value: string;
+}
+
+// A correction offered with a finding, applied cell by cell
+export interface ValidationFix {
+  // Short imperative, e.g. "Set to 150.00"
+  label: string;
+  changes: CellChange[];
+}
+
+// Characters start (inclusive) to end (exclusive) of a cell value
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
 export interface ValidationError {
   field: string;
   column: number;
   value: string;
   error: string;
+  // Stable ID of the check that produced the finding, see validationRules.ts
+  rule: string;
+  severity: ValidationSeverity;
+  params?: ValidationParams;
+  fix?: ValidationFix;
+  // Parts of the value the finding is about, e.g. a vague phrase
+  highlights?: TextRange[];
   row?: number;
+  // Line in the source file the row was read from
+  line?: number;
+  // Source file name, once files are loaded into a workspace
+  file?: string;
 }
 
 export interface DatasetValidationError {
@@ -17,6 +53,10 @@ export interface DatasetValidationError {
   invoice_identifier: string;
   error: string;
   affected_rows: number[];
+  rule: string;
+  severity: ValidationSeverity;
+  params?: ValidationParams;
+  fix?: ValidationFix;
 }
 
 export interface ValidationResult {
@@ -24,9 +64,191 @@ export interface ValidationResult {
   dataset_errors: DatasetValidationError[];
 }
 
+export type LedesFormat = "LEDES98BI" | "LEDES1998B";
+
+export type TextEncodingName =
+  | "utf-8"
+  | "windows-1252"
+  | "utf-16le"
+  | "utf-16be";
+
+export interface FileEncoding {
+  name: TextEncodingName;
+  bom: boolean;
+}
+
+// Characters in a cell that the chosen export encoding cannot represent
+export interface EncodingWarning {
+  row: number;
+  field: string;
+  characters: string[];
+}
+
+// Where a row came from; empty for rows added in the editor
+export interface RowSource {
+  line?: number;
+  file?: string;
+}
+
+// Parse report entries carry a file name once merged into a workspace
+export interface FieldCountMismatch {
+  line: number;
+  row: number;
+  expected: number;
+  actual: number;
+  file?: string;
+}
+
+export interface DiscardedLine {
+  line: number;
+  content: string;
+  reason: string;
+  file?: string;
+}
+
+export interface DuplicateHeader {
+  field: string;
+  columns: number[];
+  file?: string;
+}
+
+// A cell holding bytes Windows-1252 leaves undefined, e.g. "0x81"
+export interface UndefinedBytes {
+  row: number;
+  field: string;
+  bytes: string[];
+  file?: string;
+}
+
+export interface ParseReport {
+  field_count_mismatches: FieldCountMismatch[];
+  discarded_lines: DiscardedLine[];
+  duplicate_headers: DuplicateHeader[];
+  undefined_bytes: UndefinedBytes[];
+}
+
 export interface LedesData {
   headers: string[];
   rows: LedesRow[];
+  format: LedesFormat;
+  // Version line as read from the file, without the [] terminator (e.g. "LEDES98BI V2")
+  version?: string;
+  // Lines between the version line and the header row, preserved on export
+  preamble?: string[];
+  // Parallel to rows
+  sources?: RowSource[];
+  parseReport?: ParseReport;
+  // Encoding the file was read with; reused on export unless overridden
+  encoding?: FileEncoding;
+}
+
+export interface LoadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+  // Set when several files are loaded in one go
+  fileName?: string;
+  fileIndex?: number;
+  fileCount?: number;
+}
+
+// Steps of a full validation: one per row, one per invoice, then the rest
+export interface ValidationProgress {
+  done: number;
+  total: number;
+}
+
+export interface MergedFileReport {
+  file: string;
+  rows: number;
+  // Set when the file was converted to the workspace format
+  converted_from?: LedesFormat;
+  // Fields the conversion dropped, and the rows that had values in them
+  dropped_fields?: string[];
+  rows_with_data_loss?: number[];
+  // Workspace fields the file had no column for; left empty
+  missing_fields: string[];
+  // Non-standard columns the file added to the workspace
+  extra_fields: string[];
+}
+
+export interface MergeReport {
+  format: LedesFormat;
+  files: MergedFileReport[];
+}
+
+// A sheet read from a CSV or Excel file, before its columns are mapped
+export interface SpreadsheetTable {
+  fileName: string;
+  sheetName?: string;
+  columns: string[];
+  rows: string[][];
+  // Spreadsheet row number of each entry in rows, for error reporting
+  rowNumbers: number[];
+  // CSV only
+  encoding?: FileEncoding;
+}
+
+// Spreadsheet column -> LEDES field; null leaves the column out
+export type ColumnMapping = Record<string, string | null>;
+
+export interface MappingSuggestion {
+  column: string;
+  field: string | null;
+  // 0-1 similarity between the column name and the suggested field
+  score: number;
+}
+
+export interface SavedColumnMapping {
+  name: string;
+  format: LedesFormat;
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+export type LineEnding = "CRLF" | "LF";
+
+export type LedesXmlVersion = "2.0" | "2.1";
+
+// "zip" writes one LEDES file per invoice plus a manifest
+export type ExportFormat = "ledes" | "xml" | "csv" | "xlsx" | "json" | "zip";
+
+export interface InvoiceManifestEntry {
+  file: string;
+  invoice_number: string;
+  invoice_date: string;
+  law_firm_name: string;
+  client_name: string;
+  line_count: number;
+  // As stated on the invoice rows
+  invoice_total: string;
+  invoice_net_total: string;
+  invoice_tax_total: string;
+  invoice_currency: string;
+  // Sum of LINE_ITEM_TOTAL over the invoice's lines
+  line_items_total: string;
+}
+
+export interface LedesExportOptions {
+  lineEnding?: LineEnding;
+  xmlVersion?: LedesXmlVersion;
+  encoding?: FileEncoding;
+  // CSV/XLSX: extra error columns per row; JSON: the full validation result
+  includeValidationErrors?: boolean;
+  // CSV, including the zip manifest: prefix cells that spreadsheet apps would
+  // run as formulas with an apostrophe. On unless set to false.
+  escapeFormulas?: boolean;
+}
+
+export interface ConversionReport {
+  from: LedesFormat;
+  to: LedesFormat;
+  // Source fields with no counterpart in the target format
+  dropped_fields: string[];
+  // Target fields filled with a default because the source has no equivalent
+  defaulted_fields: Array<{ field: string; value: string }>;
+  // Rows where a dropped field actually held data
+  rows_with_data_loss: number[];
 }
 
 // LEDES98BI Field Headers (52 fields)
@@ -87,3 +309,38 @@ export const LEDES_HEADERS = [
 ] as const;
 
 export type LedesHeaderType = (typeof LEDES_HEADERS)[number];
+
+// LEDES 1998B Field Headers (24 fields)
+export const LEDES_1998B_HEADERS = [
+  "INVOICE_DATE",
+  "INVOICE_NUMBER",
+  "CLIENT_ID",
+  "LAW_FIRM_MATTER_ID",
+  "INVOICE_TOTAL",
+  "BILLING_START_DATE",
+  "BILLING_END_DATE",
+  "INVOICE_DESCRIPTION",
+  "LINE_ITEM_NUMBER",
+  "EXP/FEE/INV_ADJ_TYPE",
+  "LINE_ITEM_NUMBER_OF_UNITS",
+  "LINE_ITEM_ADJUSTMENT_AMOUNT",
+  "LINE_ITEM_TOTAL",
+  "LINE_ITEM_DATE",
+  "LINE_ITEM_TASK_CODE",
+  "LINE_ITEM_EXPENSE_CODE",
+  "LINE_ITEM_ACTIVITY_CODE",
+  "TIMEKEEPER_ID",
+  "LINE_ITEM_DESCRIPTION",
+  "LAW_FIRM_ID",
+  "LINE_ITEM_UNIT_COST",
+  "TIMEKEEPER_NAME",
+  "TIMEKEEPER_CLASSIFICATION",
+  "CLIENT_MATTER_ID",
+] as const;
+
+export type Ledes1998BHeaderType = (typeof LEDES_1998B_HEADERS)[number];
+
+export const LEDES_FORMAT_HEADERS: Record<LedesFormat, readonly string[]> = {
+  LEDES98BI: LEDES_HEADERS,
+  LEDES1998B: LEDES_1998B_HEADERS,
+};
@@ -0,0 +1,211 @@
+import { LineItemType } from "./ledesFields";
+
+export type UtbmsCodeKind = "task" | "activity" | "expense";
+
+export type UtbmsCodeSetId = "litigation" | "bankruptcy" | "project";
+
+export interface UtbmsCodeSet {
+  id: UtbmsCodeSetId;
+  name: string;
+  // Code to description, per kind of code
+  codes: Record<UtbmsCodeKind, Record<string, string>>;
+}
+
+// Used for matters without a code set of their own
+export const DEFAULT_CODE_SET: UtbmsCodeSetId = "litigation";
+
+// Fields holding UTBMS codes, in either format
+export const UTBMS_CODE_FIELDS: Record<string, UtbmsCodeKind> = {
+  LINE_ITEM_TASK_CODE: "task",
+  LINE_ITEM_ACTIVITY_CODE: "activity",
+  LINE_ITEM_EXPENSE_TYPE: "expense",
+  LINE_ITEM_EXPENSE_CODE: "expense",
+};
+
+// Task and activity codes describe work, so they only belong on fee lines
+export const UTBMS_LINE_TYPES: Record<UtbmsCodeKind, LineItemType[]> = {
+  task: ["F", "IF"],
+  activity: ["F", "IF"],
+  expense: ["E", "IE"],
+};
+
+const ACTIVITY_CODES: Record<string, string> = {
+  A101: "Plan and prepare for",
+  A102: "Research",
+  A103: "Draft/revise",
+  A104: "Review/analyze",
+  A105: "Communicate (in firm)",
+  A106: "Communicate (with client)",
+  A107: "Communicate (other outside counsel)",
+  A108: "Communicate (other external)",
+  A109: "Appear for/attend",
+  A110: "Manage data/files",
+  A111: "Other",
+};
+
+const EXPENSE_CODES: Record<string, string> = {
+  E101: "Copying",
+  E102: "Outside printing",
+  E103: "Word processing",
+  E104: "Facsimile",
+  E105: "Telephone",
+  E106: "Online research",
+  E107: "Delivery services/messengers",
+  E108: "Postage",
+  E109: "Local travel",
+  E110: "Out-of-town travel",
+  E111: "Meals",
+  E112: "Court fees",
+  E113: "Subpoena fees",
+  E114: "Witness fees",
+  E115: "Deposition transcripts",
+  E116: "Trial transcripts",
+  E117: "Trial exhibits",
+  E118: "Litigation support vendors",
+  E119: "Experts",
+  E120: "Private investigators",
+  E121: "Arbitrators/mediators",
+  E122: "Local counsel",
+  E123: "Other professionals",
+  E124: "Other",
+};
+
+// Phase codes (L100, B100, ...) are headings only and cannot be billed
+const LITIGATION_TASK_CODES: Record<string, string> = {
+  L110: "Fact Investigation/Development",
+  L120: "Analysis/Strategy",
+  L130: "Experts/Consultants",
+  L140: "Document/File Management",
+  L150: "Budgeting",
+  L160: "Settlement/Non-Binding ADR",
+  L190: "Other Case Assessment, Development and Administration",
+  L210: "Pleadings",
+  L220: "Preliminary Injunctions/Provisional Remedies",
+  L230: "Court Mandated Conferences",
+  L240: "Dispositive Motions",
+  L250: "Other Written Motions and Submissions",
+  L260: "Class Action Certification and Notice",
+  L310: "Written Discovery",
+  L320: "Document Production",
+  L330: "Depositions",
+  L340: "Expert Discovery",
+  L350: "Discovery Motions",
+  L390: "Other Discovery",
+  L410: "Fact Witnesses",
+  L420: "Expert Witnesses",
+  L430: "Written Motions and Submissions",
+  L440: "Other Trial Preparation and Support",
+  L450: "Trial and Hearing Attendance",
+  L460: "Post-Trial Motions and Submissions",
+  L470: "Enforcement",
+  L510: "Appellate Motions and Submissions",
+  L520: "Appellate Briefs",
+  L530: "Oral Argument",
+};
+
+const BANKRUPTCY_TASK_CODES: Record<string, string> = {
+  B110: "Case Administration",
+  B120: "Asset Analysis and Recovery",
+  B130: "Asset Disposition",
+  B140: "Relief from Stay/Adequate Protection Proceedings",
+  B150: "Meetings of and Communications with Creditors",
+  B160: "Fee/Employment Applications",
+  B170: "Fee/Employment Objections",
+  B180: "Avoidance Action Analysis",
+  B185: "Assumption/Rejection of Leases and Contracts",
+  B190: "Other Contested Matters",
+  B195: "Non-Working Travel",
+  B210: "Business Operations",
+  B220: "Employee Benefits/Pensions",
+  B230: "Financing/Cash Collections",
+  B240: "Tax Issues",
+  B250: "Real Estate",
+  B260: "Board of Directors Matters",
+  B310: "Claims Administration and Objections",
+  B320: "Plan and Disclosure Statement",
+  B410: "General Bankruptcy Advice/Opinions",
+  B420: "Restructurings",
+};
+
+const PROJECT_TASK_CODES: Record<string, string> = {
+  P100: "Project Administration",
+  P210: "Corporate Review",
+  P220: "Tax",
+  P230: "Environmental",
+  P240: "Real and Personal Property",
+  P250: "Employment/Labor",
+  P260: "Intellectual Property",
+  P270: "Regulatory Reviews",
+  P280: "Other",
+  P300: "Structure/Strategy/Analysis",
+  P400: "Initial Document Preparation/Filing",
+  P500: "Negotiation/Revision/Responses",
+  P600: "Completion/Closing",
+  P700: "Post-Completion/Post-Closing",
+  P800: "Maintenance and Renewal",
+};
+
+export const UTBMS_CODE_SETS: Record<UtbmsCodeSetId, UtbmsCodeSet> = {
+  litigation: {
+    id: "litigation",
+    name: "Litigation",
+    codes: {
+      task: LITIGATION_TASK_CODES,
+      activity: ACTIVITY_CODES,
+      expense: EXPENSE_CODES,
+    },
+  },
+  bankruptcy: {
+    id: "bankruptcy",
+    name: "Bankruptcy",
+    codes: {
+      task: BANKRUPTCY_TASK_CODES,
+      activity: ACTIVITY_CODES,
+      expense: EXPENSE_CODES,
+    },
+  },
+  project: {
+    id: "project",
+    name: "Project",
+    codes: {
+      task: PROJECT_TASK_CODES,
+      activity: ACTIVITY_CODES,
+      expense: EXPENSE_CODES,
+    },
+  },
+};
+
+export function isUtbmsCodeSetId(value: unknown): value is UtbmsCodeSetId {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(UTBMS_CODE_SETS, value)
+  );
+}
+
+/**
+ * Description of a code in any bundled set. Task code prefixes differ per
+ * set, so the lookup does not need to know the matter's set.
+ */
+export function describeUtbmsCode(
+  field: string,
+  code: string
+): string | undefined {
+  const kind = UTBMS_CODE_FIELDS[field];
+  if (!kind) return undefined;
+  const key = code.trim().toUpperCase();
+  for (const codeSet of Object.values(UTBMS_CODE_SETS)) {
+    if (Object.prototype.hasOwnProperty.call(codeSet.codes[kind], key)) {
+      return codeSet.codes[kind][key];
+    }
+  }
+  return undefined;
+}
+
+// Every code of one kind across the bundled sets, for editor suggestions
+export function allUtbmsCodes(kind: UtbmsCodeKind): Record<string, string> {
+  const codes: Record<string, string> = {};
+  Object.values(UTBMS_CODE_SETS).forEach((codeSet) => {
+    Object.assign(codes, codeSet.codes[kind]);
+  });
+  return codes;
+}
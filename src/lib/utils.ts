@@ -31,6 +31,21 @@ export function formatDate(dateStr: string): string {
   }
 }
 
+// Dates come in many shapes from spreadsheets and hand edits; LEDES wants YYYYMMDD
+export function normalizeDate(value: string): string {
+  const pad = (part: string) => part.padStart(2, "0");
+  const iso = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) {
+    return `${iso[1]}${pad(iso[2])}${pad(iso[3])}`;
+  }
+  // Slashed day/month order is ambiguous; follow the US convention used elsewhere
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) {
+    return `${us[3]}${pad(us[1])}${pad(us[2])}`;
+  }
+  return value;
+}
+
 export function parseApiError(error: unknown): string {
   if (error instanceof Error) {
     return error.message;
@@ -52,6 +67,24 @@ export function debounce<T extends (...args: any[]) => any>(
   };
 }
 
+export function downloadBlob(
+  content: BlobPart,
+  filename: string,
+  type: string
+): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength) + "...";
@@ -0,0 +1,420 @@
+import { BillingGuidelines, BillingGuidelinesMap } from "./guidelines";
+import { InvoiceGroup } from "./invoices";
+import { LedesFieldSpec } from "./ledesFields";
+import { MatterSettings, MatterSettingsMap } from "./matters";
+import { BUILT_IN_RULES } from "./rules";
+import {
+  LedesFormat,
+  ParseReport,
+  RowSource,
+  TextRange,
+  ValidationFix,
+  ValidationParams,
+  ValidationResult,
+  ValidationSeverity,
+} from "./types";
+
+export type ValidationRuleScope = "field" | "row" | "dataset";
+
+export type RuleParamValue = number | boolean | string | string[];
+export type RuleParamValues = Record<string, RuleParamValue>;
+
+// A setting users can tune per rule in the validation profile
+export interface ValidationRuleParam {
+  key: string;
+  label: string;
+  type: "number" | "boolean" | "text" | "list" | "choice";
+  default: RuleParamValue;
+  // Value to label, for choice params
+  options?: Record<string, string>;
+  description?: string;
+  min?: number;
+  step?: number;
+}
+
+interface ValidationRuleBase {
+  // Stable: exports, filters and saved profiles refer to it
+  id: string;
+  title: string;
+  description: string;
+  severity: ValidationSeverity;
+  params?: ValidationRuleParam[];
+  // Off unless a profile turns it on
+  optional?: boolean;
+}
+
+export interface RuleIssue {
+  error: string;
+  params?: ValidationParams;
+}
+
+// Replacement value for the cell a field or row finding is on
+export interface CellFix {
+  label: string;
+  value: string;
+}
+
+export interface FieldIssue extends RuleIssue {
+  fix?: CellFix;
+  highlights?: TextRange[];
+}
+
+export interface RowIssue extends FieldIssue {
+  field: string;
+}
+
+export interface DatasetIssue extends RuleIssue {
+  // Defaults to the rule ID
+  type?: string;
+  // Defaults to the rule's severity
+  severity?: ValidationSeverity;
+  invoice_identifier: string;
+  affected_rows: number[];
+  fix?: ValidationFix;
+}
+
+export interface FieldCell {
+  field: string;
+  value: string;
+  // Missing for non-standard columns
+  spec?: LedesFieldSpec;
+  lineType: string;
+  format: LedesFormat;
+  // Settings for the row's matter, empty when it has none
+  matter: MatterSettings;
+  // Billing guidelines of the row's matter
+  guidelines: BillingGuidelines | null;
+}
+
+export interface RowView {
+  format: LedesFormat;
+  headers: string[];
+  values: string[];
+  lineType: string;
+  matter: MatterSettings;
+  guidelines: BillingGuidelines | null;
+  // Value of a field, "" when the column is absent
+  get(field: string): string;
+}
+
+export interface DatasetView {
+  format: LedesFormat;
+  headers: string[];
+  dataset: string[][];
+  parseReport?: ParseReport;
+  // Parallel to the dataset rows
+  sources?: RowSource[];
+  matters: MatterSettingsMap;
+  // Every saved set of guidelines; matters refer to them by ID
+  guidelines: BillingGuidelinesMap;
+  // Invoices to check, all of them unless revalidating after an edit
+  invoices: InvoiceGroup[];
+  // Rows of the groups to check for grouped rules, every row when missing
+  rowIndexes?: number[];
+}
+
+/**
+ * Checks one cell. The first enabled field rule to report an issue wins, so
+ * each cell carries at most one field-level finding.
+ */
+export interface FieldRule extends ValidationRuleBase {
+  scope: "field";
+  // Also called for empty cells; other field rules only see filled ones
+  checksEmpty?: boolean;
+  check(cell: FieldCell, params: RuleParamValues): FieldIssue | null;
+}
+
+// Checks relationships between fields of one row
+export interface RowRule extends ValidationRuleBase {
+  scope: "row";
+  check(row: RowView, params: RuleParamValues): RowIssue[];
+}
+
+// Checks across rows, usually per invoice
+export interface DatasetRule extends ValidationRuleBase {
+  scope: "dataset";
+  // Only reads rows of data.invoices, so after an edit it can be rerun for
+  // the invoices the edited rows belong to
+  perInvoice?: boolean;
+  /**
+   * For rules that only compare rows within groups, such as one timekeeper's
+   * day: the group of a row, "" for rows the rule ignores. Such rules read
+   * only data.rowIndexes when it is set, and report each issue on rows of one
+   * group, so after an edit only the groups the edited rows left or joined
+   * are checked again.
+   */
+  groupOf?(
+    data: DatasetView,
+    rowIndex: number,
+    params: RuleParamValues
+  ): string;
+  check(data: DatasetView, params: RuleParamValues): DatasetIssue[];
+}
+
+export type ValidationRule = FieldRule | RowRule | DatasetRule;
+
+const registry: ValidationRule[] = [...BUILT_IN_RULES];
+
+/**
+ * Adds a rule, or replaces the registered rule with the same ID. Rules run in
+ * registration order within their scope.
+ */
+export function registerValidationRule(rule: ValidationRule): void {
+  const index = registry.findIndex((r) => r.id === rule.id);
+  if (index === -1) {
+    registry.push(rule);
+  } else {
+    registry[index] = rule;
+  }
+}
+
+export function getValidationRules(): ValidationRule[] {
+  return [...registry];
+}
+
+export function getValidationRule(id: string): ValidationRule | undefined {
+  return registry.find((rule) => rule.id === id);
+}
+
+// Most severe first
+export const VALIDATION_SEVERITIES: ValidationSeverity[] = [
+  "error",
+  "warning",
+  "info",
+];
+
+// Lower is more severe, for picking the finding to show on a cell
+export function severityRank(severity: ValidationSeverity): number {
+  return VALIDATION_SEVERITIES.indexOf(severity);
+}
+
+export function countBySeverity(
+  result: ValidationResult
+): Record<ValidationSeverity, number> {
+  const counts: Record<ValidationSeverity, number> = {
+    error: 0,
+    warning: 0,
+    info: 0,
+  };
+  [...result.row_errors, ...result.dataset_errors].forEach((finding) => {
+    counts[finding.severity]++;
+  });
+  return counts;
+}
+
+// Overrides for one rule; anything left out uses the rule's defaults
+export interface RuleSettings {
+  enabled?: boolean;
+  severity?: ValidationSeverity;
+  params?: RuleParamValues;
+}
+
+export interface ValidationProfile {
+  name: string;
+  rules: Record<string, RuleSettings>;
+}
+
+export interface ResolvedRule<R extends ValidationRule = ValidationRule> {
+  rule: R;
+  enabled: boolean;
+  severity: ValidationSeverity;
+  params: RuleParamValues;
+}
+
+// Bumped whenever the profile file shape changes incompatibly
+export const VALIDATION_PROFILE_VERSION = 1;
+
+export const DEFAULT_VALIDATION_PROFILE: ValidationProfile = {
+  name: "Default",
+  rules: {},
+};
+
+const VALIDATION_PROFILE_KEY = "ledes-editor:validation-profile";
+
+export function resolveRule<R extends ValidationRule>(
+  rule: R,
+  profile: ValidationProfile
+): ResolvedRule<R> {
+  const settings = profile.rules[rule.id] ?? {};
+  const params: RuleParamValues = {};
+  rule.params?.forEach((param) => {
+    // A value the rule cannot use, e.g. from a hand-edited profile, falls
+    // back to the default rather than breaking every validation
+    const value = settings.params?.[param.key];
+    params[param.key] =
+      value !== undefined && paramValueError(param, value) === null
+        ? value
+        : param.default;
+  });
+
+  return {
+    rule,
+    enabled: settings.enabled ?? !rule.optional,
+    severity: settings.severity ?? rule.severity,
+    params,
+  };
+}
+
+// Enabled rules of one scope, in registration order
+export function activeRules<S extends ValidationRuleScope>(
+  scope: S,
+  profile: ValidationProfile
+): ResolvedRule<Extract<ValidationRule, { scope: S }>>[] {
+  return registry
+    .filter(
+      (rule): rule is Extract<ValidationRule, { scope: S }> =>
+        rule.scope === scope
+    )
+    .map((rule) => resolveRule(rule, profile))
+    .filter((resolved) => resolved.enabled);
+}
+
+export function loadValidationProfile(): ValidationProfile {
+  if (typeof window === "undefined") return DEFAULT_VALIDATION_PROFILE;
+  try {
+    const stored = window.localStorage.getItem(VALIDATION_PROFILE_KEY);
+    return stored ? parseValidationProfile(stored) : DEFAULT_VALIDATION_PROFILE;
+  } catch {
+    return DEFAULT_VALIDATION_PROFILE;
+  }
+}
+
+export function saveValidationProfile(profile: ValidationProfile): void {
+  window.localStorage.setItem(
+    VALIDATION_PROFILE_KEY,
+    validationProfileToJson(profile)
+  );
+}
+
+export function validationProfileToJson(profile: ValidationProfile): string {
+  return JSON.stringify(
+    {
+      profile_version: VALIDATION_PROFILE_VERSION,
+      name: profile.name,
+      rules: profile.rules,
+    },
+    null,
+    2
+  );
+}
+
+function isParamValue(value: unknown): value is RuleParamValue {
+  return (
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((v) => typeof v === "string"))
+  );
+}
+
+/**
+ * Why a value does not fit the param's declared type, choices or minimum;
+ * null when it does.
+ */
+export function paramValueError(
+  param: ValidationRuleParam,
+  value: unknown
+): string | null {
+  switch (param.type) {
+    case "number":
+      if (typeof value !== "number" || !isFinite(value)) {
+        return `${param.label} must be a number`;
+      }
+      if (param.min !== undefined && value < param.min) {
+        return `${param.label} must be at least ${param.min}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean"
+        ? null
+        : `${param.label} must be true or false`;
+    case "text":
+      return typeof value === "string" ? null : `${param.label} must be text`;
+    case "list":
+      return Array.isArray(value) && value.every((v) => typeof v === "string")
+        ? null
+        : `${param.label} must be a list of text`;
+    case "choice":
+      return typeof value === "string" &&
+        Object.prototype.hasOwnProperty.call(param.options ?? {}, value)
+        ? null
+        : `${param.label} must be one of ${Object.keys(
+            param.options ?? {}
+          ).join(", ")}`;
+  }
+}
+
+/**
+ * Reads a profile written by validationProfileToJson. Rules this build does
+ * not know are kept, so a profile survives a trip through another version;
+ * malformed settings, and params that do not fit a known rule, are rejected.
+ */
+export function parseValidationProfile(text: string): ValidationProfile {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error("Validation profile is not valid JSON");
+  }
+
+  const { profile_version, name, rules } = (document ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (profile_version !== VALIDATION_PROFILE_VERSION) {
+    throw new Error(
+      `Unsupported validation profile version: ${String(profile_version)}`
+    );
+  }
+  if (typeof rules !== "object" || rules === null || Array.isArray(rules)) {
+    throw new Error("Validation profile has no rules object");
+  }
+
+  const parsed: Record<string, RuleSettings> = {};
+  Object.entries(rules as Record<string, unknown>).forEach(([id, value]) => {
+    const { enabled, severity, params } = (value ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      throw new Error(`Rule ${id}: "enabled" must be true or false`);
+    }
+    if (
+      severity !== undefined &&
+      !VALIDATION_SEVERITIES.includes(severity as ValidationSeverity)
+    ) {
+      throw new Error(
+        `Rule ${id}: severity must be one of ${VALIDATION_SEVERITIES.join(
+          ", "
+        )}`
+      );
+    }
+    if (
+      params !== undefined &&
+      (typeof params !== "object" ||
+        params === null ||
+        !Object.values(params).every(isParamValue))
+    ) {
+      throw new Error(`Rule ${id}: params must map names to values`);
+    }
+    getValidationRule(id)?.params?.forEach((param) => {
+      const value = (params as RuleParamValues | undefined)?.[param.key];
+      if (value === undefined) return;
+      const error = paramValueError(param, value);
+      if (error) throw new Error(`Rule ${id}: ${error}`);
+    });
+
+    parsed[id] = {
+      ...(enabled !== undefined ? { enabled } : {}),
+      ...(severity !== undefined
+        ? { severity: severity as ValidationSeverity }
+        : {}),
+      ...(params !== undefined ? { params: params as RuleParamValues } : {}),
+    };
+  });
+
+  return {
+    name: typeof name === "string" && name.trim() ? name : "Imported profile",
+    rules: parsed,
+  };
+}
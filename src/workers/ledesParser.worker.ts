@@ -0,0 +1,125 @@
+import { detectEncoding } from "../lib/encoding";
+import { LedesStreamParser } from "../lib/ledesParser";
+import { LedesXmlHandler } from "../lib/ledesXmlHandler";
+import {
+  FileEncoding,
+  LedesData,
+  LoadProgress,
+  TextEncodingName,
+} from "../lib/types";
+
+export interface ParseWorkerRequest {
+  file: File;
+  // Skips detection when set
+  encoding?: TextEncodingName;
+}
+
+export type ParseWorkerResponse =
+  | { type: "progress"; progress: LoadProgress }
+  | { type: "done"; data: LedesData }
+  // XML is parsed on the main thread, where DOMParser exists
+  | { type: "xml"; content: string; encoding: FileEncoding }
+  | { type: "error"; error: string };
+
+function post(message: ParseWorkerResponse) {
+  self.postMessage(message);
+}
+
+// Thrown when a file detected as UTF-8 turns out not to be, past the sample
+class EncodingMismatchError extends Error {}
+
+async function parse(file: File, override?: TextEncodingName) {
+  const reader = file.stream().getReader();
+  const first = await reader.read();
+  const sample = first.done ? new Uint8Array() : first.value;
+
+  const detected = detectEncoding(sample);
+  const encoding: FileEncoding = override
+    ? { name: override, bom: override === detected.name && detected.bom }
+    : detected;
+
+  try {
+    await parseStream(file, reader, first, encoding, !override);
+  } catch (error) {
+    if (!(error instanceof EncodingMismatchError)) throw error;
+    // The sample was valid UTF-8 but later bytes are not; start over
+    await parseStream(
+      file,
+      file.stream().getReader(),
+      null,
+      { name: "windows-1252", bom: false },
+      false
+    );
+  }
+}
+
+async function parseStream(
+  file: File,
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  first: ReadableStreamReadResult<Uint8Array> | null,
+  encoding: FileEncoding,
+  strict: boolean
+) {
+  const decoder = new TextDecoder(encoding.name, {
+    fatal: strict && encoding.name === "utf-8",
+  });
+  const parser = new LedesStreamParser();
+
+  let bytesRead = 0;
+  let pending = "";
+  let isXml: boolean | null = null;
+  let xmlContent = "";
+
+  for (;;) {
+    const { done, value } = first ?? (await reader.read());
+    first = null;
+
+    let text: string;
+    try {
+      text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    } catch {
+      await reader.cancel();
+      throw new EncodingMismatchError();
+    }
+
+    if (isXml === null && (text.trim() || done)) {
+      isXml = LedesXmlHandler.isXml(text);
+    }
+
+    if (isXml) {
+      xmlContent += text;
+    } else {
+      // Hold back the trailing partial line until the next chunk completes it
+      const lines = (pending + text).split("\n");
+      pending = done ? "" : (lines.pop() as string);
+      lines.forEach((line) => parser.pushLine(line));
+    }
+
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    post({
+      type: "progress",
+      progress: {
+        bytesRead,
+        totalBytes: file.size,
+        rowsParsed: parser.rowCount,
+      },
+    });
+  }
+
+  if (isXml) {
+    post({ type: "xml", content: xmlContent, encoding });
+  } else {
+    post({ type: "done", data: { ...parser.finish(), encoding } });
+  }
+}
+
+self.onmessage = (event: MessageEvent<ParseWorkerRequest>) => {
+  parse(event.data.file, event.data.encoding).catch((error) => {
+    post({
+      type: "error",
+      error: error instanceof Error ? error.message : "Failed to read file",
+    });
+  });
+};
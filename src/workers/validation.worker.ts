@@ -0,0 +1,111 @@
+import { BillingGuidelinesMap } from "../lib/guidelines";
+import { IncrementalValidator } from "../lib/incrementalValidator";
+import { DatasetContext, LedesValidator } from "../lib/ledesValidator";
+import { MatterSettingsMap } from "../lib/matters";
+import {
+  LedesFormat,
+  ValidationProgress,
+  ValidationResult,
+} from "../lib/types";
+import { ValidationProfile } from "../lib/validationRules";
+
+// What the validator is built from; a new configuration needs a full run
+export interface ValidationConfig {
+  format: LedesFormat;
+  profile: ValidationProfile;
+  matters: MatterSettingsMap;
+  guidelines: BillingGuidelinesMap;
+}
+
+/**
+ * Requests are handled in order. A full validation pauses between chunks of
+ * rows, and any request arriving meanwhile stops it; updates apply to the
+ * last completed validation.
+ */
+export type ValidationWorkerRequest =
+  | {
+      type: "validate";
+      id: number;
+      config: ValidationConfig;
+      dataset: string[][];
+      headers: string[];
+      context: DatasetContext;
+    }
+  | { type: "update"; id: number; changedRows: Record<number, string[]> }
+  | { type: "cancel" };
+
+export type ValidationWorkerResponse =
+  | { type: "progress"; id: number; progress: ValidationProgress }
+  | { type: "done"; id: number; result: ValidationResult }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; error: string };
+
+function post(message: ValidationWorkerResponse) {
+  self.postMessage(message);
+}
+
+let engine: IncrementalValidator | null = null;
+// Bumped by every request, so a running full validation knows to stop
+let generation = 0;
+
+async function validate(
+  request: Extract<ValidationWorkerRequest, { type: "validate" }>
+) {
+  const { id, config, dataset, headers, context } = request;
+  const started = generation;
+  const next = new IncrementalValidator(
+    new LedesValidator(
+      config.format,
+      config.profile,
+      config.matters,
+      config.guidelines
+    )
+  );
+
+  const result = await next.validateInChunks(dataset, headers, context, {
+    onProgress: (progress) => post({ type: "progress", id, progress }),
+    shouldStop: () => generation !== started,
+  });
+
+  if (result) {
+    engine = next;
+    post({ type: "done", id, result });
+  } else {
+    post({ type: "cancelled", id });
+  }
+}
+
+self.onmessage = (event: MessageEvent<ValidationWorkerRequest>) => {
+  const request = event.data;
+  generation++;
+
+  switch (request.type) {
+    case "validate":
+      validate(request).catch((error) => {
+        post({
+          type: "error",
+          id: request.id,
+          error: error instanceof Error ? error.message : "Validation failed",
+        });
+      });
+      break;
+    case "update":
+      try {
+        if (!engine) {
+          throw new Error("Nothing has been validated yet");
+        }
+        post({
+          type: "done",
+          id: request.id,
+          result: engine.update(request.changedRows),
+        });
+      } catch (error) {
+        post({
+          type: "error",
+          id: request.id,
+          error: error instanceof Error ? error.message : "Validation failed",
+        });
+      }
+      break;
+  }
+};